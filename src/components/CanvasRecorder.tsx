@@ -0,0 +1,121 @@
+import { forwardRef, useEffect, useImperativeHandle, useRef } from 'react';
+import { addAfterEffect, useThree } from '@react-three/fiber';
+import {
+  RECORDING_DEFAULTS,
+  coverRect,
+  pickWebmType,
+  recordingBitrate,
+  type RecordingOptions,
+} from '../utils/recording';
+
+export interface CanvasRecorderHandle {
+  start: (options?: Partial<RecordingOptions>) => void;
+  // Resolves with the finished WebM once the recorder has flushed
+  stop: () => Promise<Blob>;
+  isRecording: () => boolean;
+}
+
+interface Session {
+  recorder: MediaRecorder;
+  chunks: Blob[];
+  unsubscribe: () => void;
+}
+
+interface CanvasRecorderProps {
+  // Asks the page to render the Canvas at this pixel ratio, or at its usual one for null; going through the
+  // Canvas dpr prop keeps re-renders from resetting it mid-take
+  onDprChange: (dpr: number | null) => void;
+}
+
+// Highest pixel ratio used to reach large recording sizes; beyond this the GPU cost outweighs the detail
+const MAX_RECORDING_DPR = 4;
+
+// Lives inside the Canvas; copies every rendered frame into a fixed-size canvas that MediaRecorder captures
+const CanvasRecorder = forwardRef<CanvasRecorderHandle, CanvasRecorderProps>(({ onDprChange }, ref) => {
+  const gl = useThree((state) => state.gl);
+  const size = useThree((state) => state.size);
+  const viewport = useThree((state) => state.viewport);
+  const sessionRef = useRef<Session | null>(null);
+
+  const finish = (session: Session) => {
+    session.unsubscribe();
+    onDprChange(null);
+    sessionRef.current = null;
+  };
+
+  const start = (options: Partial<RecordingOptions> = {}) => {
+    if (sessionRef.current) throw new Error('Already recording');
+    const settings = { ...RECORDING_DEFAULTS, ...options };
+    const mimeType = pickWebmType();
+    if (!mimeType) throw new Error('This browser cannot record WebM video');
+
+    const frame = document.createElement('canvas');
+    frame.width = settings.width;
+    frame.height = settings.height;
+    const context = frame.getContext('2d');
+    if (!context) throw new Error('Canvas 2D is not available in this browser');
+
+    // Render enough pixels to fill the frame without upscaling; the on-screen size is left alone
+    const needed = Math.max(settings.width / size.width, settings.height / size.height);
+    const dpr = Math.min(Math.max(needed, viewport.dpr), MAX_RECORDING_DPR);
+    onDprChange(dpr);
+
+    // Copy right after each render, while the drawing buffer still holds the frame; frames rendered before
+    // the page has applied the raised pixel ratio are left out
+    const interval = 1000 / settings.fps;
+    let lastCopy = -Infinity;
+    const unsubscribe = addAfterEffect((timestamp) => {
+      if (gl.getPixelRatio() !== dpr || timestamp - lastCopy < interval * 0.9) return;
+      lastCopy = timestamp;
+      const source = gl.domElement;
+      const crop = coverRect(source.width, source.height, frame.width, frame.height);
+      context.drawImage(source, crop.x, crop.y, crop.width, crop.height, 0, 0, frame.width, frame.height);
+    });
+
+    const recorder = new MediaRecorder(frame.captureStream(settings.fps), {
+      mimeType,
+      videoBitsPerSecond: recordingBitrate(settings),
+    });
+    const session: Session = { recorder, chunks: [], unsubscribe };
+    recorder.ondataavailable = (event) => {
+      if (event.data.size > 0) session.chunks.push(event.data);
+    };
+    recorder.start(1000);
+    sessionRef.current = session;
+  };
+
+  const stop = () => {
+    const session = sessionRef.current;
+    if (!session) return Promise.reject(new Error('Not recording'));
+
+    return new Promise<Blob>((resolve) => {
+      session.recorder.onstop = () => {
+        finish(session);
+        resolve(new Blob(session.chunks, { type: 'video/webm' }));
+      };
+      session.recorder.stop();
+    });
+  };
+
+  // Unmounting mid-recording drops the take
+  useEffect(() => () => {
+    const session = sessionRef.current;
+    if (!session) return;
+    session.recorder.onstop = null;
+    if (session.recorder.state !== 'inactive') session.recorder.stop();
+    session.unsubscribe();
+    sessionRef.current = null;
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    start,
+    stop,
+    isRecording: () => sessionRef.current !== null,
+  }));
+
+  return null;
+});
+
+CanvasRecorder.displayName = 'CanvasRecorder';
+
+export default CanvasRecorder;
@@ -0,0 +1,58 @@
+import { forwardRef, useImperativeHandle } from 'react';
+import { addAfterEffect, useThree } from '@react-three/fiber';
+import { SNAPSHOT_SIZES, snapshotPixelRatio, type SnapshotOptions } from '../utils/snapshot';
+
+export interface CanvasSnapshotHandle {
+  capture: (options?: SnapshotOptions) => Promise<Blob>;
+}
+
+// Frames rendered at the new pixel ratio before reading back, so per-frame uniforms have caught up
+const SETTLE_FRAMES = 2;
+
+interface CanvasSnapshotProps {
+  // Asks the page to render the Canvas at this pixel ratio, or at its usual one for null; going through the
+  // Canvas dpr prop keeps re-renders from resetting it before the frame is read back
+  onDprChange: (dpr: number | null) => void;
+}
+
+// Lives inside the Canvas; re-renders the current view at a higher pixel ratio and reads it back as PNG
+const CanvasSnapshot = forwardRef<CanvasSnapshotHandle, CanvasSnapshotProps>(({ onDprChange }, ref) => {
+  const gl = useThree((state) => state.gl);
+  const scene = useThree((state) => state.scene);
+  const size = useThree((state) => state.size);
+
+  const capture = ({ size: snapshotSize = SNAPSHOT_SIZES[1], transparent = false }: SnapshotOptions = {}) => {
+    const previousBackground = scene.background;
+    const maxPixels = Math.min(gl.capabilities.maxTextureSize, 16384);
+    const dpr = snapshotPixelRatio(snapshotSize, size.width, size.height, maxPixels);
+
+    if (transparent) scene.background = null;
+    onDprChange(dpr);
+
+    return new Promise<Blob>((resolve, reject) => {
+      let frames = 0;
+      const unsubscribe = addAfterEffect(() => {
+        // Frames only count once the page has re-rendered the Canvas at the new pixel ratio
+        if (gl.getPixelRatio() !== dpr || ++frames < SETTLE_FRAMES) return;
+        unsubscribe();
+
+        // The drawing buffer still holds this frame; toBlob copies it before the browser clears it
+        gl.domElement.toBlob((blob) => {
+          if (blob) resolve(blob);
+          else reject(new Error('The snapshot was too large for this browser'));
+        }, 'image/png');
+
+        scene.background = previousBackground;
+        onDprChange(null);
+      });
+    });
+  };
+
+  useImperativeHandle(ref, () => ({ capture }));
+
+  return null;
+});
+
+CanvasSnapshot.displayName = 'CanvasSnapshot';
+
+export default CanvasSnapshot;
@@ -0,0 +1,164 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { ParticleSystemHandle } from './ParticleSystem';
+import { Button } from './ui/button';
+import { Card } from './ui/card';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Textarea } from './ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from './ui/dialog';
+import { toast } from './ui/sonner';
+import {
+  DEFAULT_CHOREOGRAPHY,
+  createChoreographyPlayer,
+  describeStep,
+  parseChoreography,
+  type Choreography,
+} from '../utils/choreography';
+
+interface ChoreographyPanelProps {
+  controllerRef: React.RefObject<ParticleSystemHandle>;
+  // Called when the show takes over or hands back control of the particles
+  onPlayingChange?: (playing: boolean) => void;
+}
+
+const ChoreographyPanel = ({ controllerRef, onPlayingChange }: ChoreographyPanelProps) => {
+  const [choreography, setChoreography] = useState<Choreography>(DEFAULT_CHOREOGRAPHY);
+  const [stepIndex, setStepIndex] = useState(-1);
+  const [isPaused, setIsPaused] = useState(false);
+  const [loop, setLoop] = useState(DEFAULT_CHOREOGRAPHY.loop ?? false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [draftError, setDraftError] = useState<string | null>(null);
+
+  const player = useMemo(
+    () => createChoreographyPlayer(() => controllerRef.current, choreography, {
+      onStep: (index) => setStepIndex(index),
+      onStepError: (index, step, error) => {
+        toast.error(`Step ${index + 1} (${describeStep(step)}) was skipped`, { description: error.message });
+      },
+      onFinish: () => setStepIndex(-1),
+    }),
+    [choreography, controllerRef]
+  );
+
+  useEffect(() => {
+    player.setLoop(loop);
+  }, [player, loop]);
+
+  useEffect(() => () => player.stop(), [player]);
+
+  const isPlaying = stepIndex >= 0;
+  useEffect(() => {
+    onPlayingChange?.(isPlaying);
+  }, [isPlaying, onPlayingChange]);
+
+  const handleStop = () => {
+    player.stop();
+    setStepIndex(-1);
+    setIsPaused(false);
+  };
+
+  const handleTogglePause = () => {
+    if (isPaused) player.resume();
+    else player.pause();
+    setIsPaused(!isPaused);
+  };
+
+  const openEditor = () => {
+    setDraft(JSON.stringify(choreography, null, 2));
+    setDraftError(null);
+    setIsEditing(true);
+  };
+
+  const applyDraft = () => {
+    try {
+      const next = parseChoreography(draft);
+      handleStop();
+      setChoreography(next);
+      setLoop(next.loop ?? false);
+      setIsEditing(false);
+    } catch (error) {
+      setDraftError(error instanceof Error ? error.message : String(error));
+    }
+  };
+
+  const step = isPlaying ? choreography.steps[stepIndex] : null;
+
+  return (
+    <Card className="p-4 bg-black/20 backdrop-blur-md border-gold-500/30 min-w-[240px] space-y-3">
+      <div className="flex justify-between items-center">
+        <span className="text-gold-400 font-semibold">{choreography.name ?? 'Choreography'}</span>
+        <span className="text-slate-400 text-sm">
+          {isPlaying ? `${stepIndex + 1} / ${choreography.steps.length}` : `${choreography.steps.length} steps`}
+        </span>
+      </div>
+
+      <p className="text-slate-300 text-sm min-h-[1.25rem]">
+        {step ? describeStep(step) : 'Stopped'}
+      </p>
+
+      <div className="flex gap-2">
+        {isPlaying ? (
+          <>
+            <Button size="sm" variant="outline" className="border-gold-500/50 text-gold-400" onClick={handleTogglePause}>
+              {isPaused ? 'Resume' : 'Pause'}
+            </Button>
+            <Button size="sm" variant="ghost" className="text-slate-300" onClick={() => player.skip()} disabled={isPaused}>
+              Skip
+            </Button>
+            <Button size="sm" variant="ghost" className="text-slate-300" onClick={handleStop}>
+              Stop
+            </Button>
+          </>
+        ) : (
+          <>
+            <Button size="sm" className="bg-gradient-to-r from-gold-500 to-amber-600 text-black" onClick={() => player.play()}>
+              Play 🎬
+            </Button>
+            <Button size="sm" variant="ghost" className="text-slate-300" onClick={openEditor}>
+              Edit JSON
+            </Button>
+          </>
+        )}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <Switch id="choreography-loop" checked={loop} onCheckedChange={setLoop} />
+        <Label htmlFor="choreography-loop" className="text-slate-300">Loop</Label>
+      </div>
+
+      <Dialog open={isEditing} onOpenChange={setIsEditing}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Edit choreography</DialogTitle>
+            <DialogDescription>
+              Steps are cloud, shape, text, flap, hold and explode, each with a duration in seconds.
+            </DialogDescription>
+          </DialogHeader>
+          <Textarea
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            className="font-mono text-xs min-h-[320px]"
+            spellCheck={false}
+          />
+          {draftError && (
+            <pre className="text-destructive text-xs whitespace-pre-wrap">{draftError}</pre>
+          )}
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>
+            <Button onClick={applyDraft}>Load</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default ChoreographyPanel;
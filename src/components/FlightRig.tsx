@@ -0,0 +1,69 @@
+import React, { useMemo, useRef } from 'react';
+import { useFrame } from '@react-three/fiber';
+import * as THREE from 'three';
+import {
+  FLIGHT_DEFAULTS,
+  createFlightPath,
+  createFlightPose,
+  createProceduralFlightPath,
+  sampleFlightPose,
+  type FlightSettings,
+} from '../utils/flightPath';
+
+interface FlightRigProps {
+  enabled: boolean;
+  seed: number;
+  // Custom control points; a procedural loop is used when omitted
+  path?: THREE.Vector3[];
+  followCamera?: boolean;
+  settings?: Partial<FlightSettings>;
+  children: React.ReactNode;
+}
+
+const REST_POSITION = new THREE.Vector3();
+const REST_QUATERNION = new THREE.Quaternion();
+
+// Carries its children along a looping spline, banking into turns
+const FlightRig = ({ enabled, seed, path, followCamera = false, settings, children }: FlightRigProps) => {
+  const groupRef = useRef<THREE.Group>(null);
+  const distanceRef = useRef(0);
+  const pose = useMemo(() => createFlightPose(), []);
+  const cameraTarget = useMemo(() => new THREE.Vector3(), []);
+
+  const curve = useMemo(
+    () => (path && path.length >= 2 ? createFlightPath(path) : createProceduralFlightPath(seed)),
+    [path, seed]
+  );
+  const flight = useMemo(() => ({ ...FLIGHT_DEFAULTS, ...settings }), [settings]);
+
+  useFrame((state, delta) => {
+    const group = groupRef.current;
+    if (!group) return;
+
+    // Ease on and off the path instead of jumping
+    const blend = 1 - Math.exp(-3 * delta);
+
+    if (!enabled) {
+      group.position.lerp(REST_POSITION, blend);
+      group.quaternion.slerp(REST_QUATERNION, blend);
+      return;
+    }
+
+    distanceRef.current += flight.speed * delta;
+    sampleFlightPose(curve, distanceRef.current / curve.getLength(), flight, pose);
+    group.position.lerp(pose.position, blend);
+    group.quaternion.slerp(pose.quaternion, blend);
+
+    if (followCamera) {
+      // Chase from behind and slightly above
+      cameraTarget.copy(group.position).addScaledVector(pose.tangent, -7);
+      cameraTarget.y += 2.5;
+      state.camera.position.lerp(cameraTarget, 1 - Math.exp(-2 * delta));
+      state.camera.lookAt(group.position);
+    }
+  });
+
+  return <group ref={groupRef}>{children}</group>;
+};
+
+export default FlightRig;
@@ -1,186 +1,594 @@
-
-import React, { useRef, useMemo, useImperativeHandle, forwardRef, useState } from 'react';
+import React, { useRef, useMemo, useImperativeHandle, forwardRef, useEffect } from 'react';
 import { useFrame, useThree } from '@react-three/fiber';
-import { Points, PointMaterial } from '@react-three/drei';
 import * as THREE from 'three';
 import gsap from 'gsap';
-import { butterflyShape } from '../utils/butterflyShape';
+import { generateShape, getShape, hasShape } from '../utils/shapes';
+import { createRandom, deriveSeed } from '../utils/random';
+import { DEFAULT_PALETTE, createPalettePicker, type PaletteEntry } from '../utils/palettes';
+import { PHYSICS_DEFAULTS, createParticlePhysics, type PhysicsSettings } from '../utils/physics';
+import { createFixedStepLoop } from '../utils/fixedStep';
+import { createShockwaves, type ShockwaveSettings } from '../utils/shockwave';
+import {
+  FLAP_DEFAULTS,
+  PARTICLE_BLENDING,
+  PARTICLE_DEFAULTS,
+  type FlapSettings,
+  type ParticleBlending,
+  type ParticleSettings,
+  createParticleUniforms,
+  localProgress,
+  particleFragmentShader,
+  particleVertexShader,
+} from '../utils/particleShader';
+import { createMorphEngine, resolveEase, type MorphEase, type MorphEventType, type MorphListener } from '../utils/morphEngine';
+
+export interface MorphTransition {
+  duration?: number;
+  ease?: MorphEase;
+  // Fraction of the morph over which particle start times are spread
+  stagger?: number;
+}
+
+export interface BurstOptions extends MorphTransition {
+  strength?: number;
+}
+
+export interface ShockwaveOptions extends Partial<ShockwaveSettings> {
+  // Screen point in normalized device coordinates (-1 to 1); defaults to the current pointer
+  pointer?: { x: number; y: number };
+}
+
+export interface ParticleSnapshot {
+  positions: Float32Array;
+  colors: Float32Array;
+  shapeId: string | null;
+}
+
+export interface ParticleSystemState {
+  // Formation the particles are in or heading to; null for the free cloud
+  shapeId: string | null;
+  isMorphing: boolean;
+  isPaused: boolean;
+  isFlapping: boolean;
+  progress: number;
+  speed: number;
+  particleCount: number;
+  seed: number;
+}
+
+export interface ParticleSystemHandle {
+  morph: (shapeId: string, transition?: MorphTransition) => void;
+  reset: (transition?: MorphTransition) => void;
+  pause: () => void;
+  resume: () => void;
+  reverse: () => void;
+  seek: (progress: number) => void;
+  setSpeed: (speed: number) => void;
+  startFlap: () => void;
+  stopFlap: () => void;
+  burst: (options?: BurstOptions) => void;
+  shockwave: (options?: ShockwaveOptions) => void;
+  snapshot: () => ParticleSnapshot;
+  getState: () => ParticleSystemState;
+  on: (type: MorphEventType, listener: MorphListener) => () => void;
+}
 
 interface ParticleSystemProps {
   particleCount: number;
-  isTransformed: boolean;
+  seed: number;
+  settings?: Partial<ParticleSettings>;
+  blending?: ParticleBlending;
+  palette?: PaletteEntry[];
+  flap?: Partial<FlapSettings>;
+  physics?: Partial<PhysicsSettings>;
+  // Formation to take up on mount, e.g. when restoring a shared scene
+  initialShape?: string | null;
+  // Shape ids are null while the particles float freely as a cloud
+  onMorphStart?: (from: string | null, to: string | null) => void;
+  onMorphProgress?: (progress: number) => void;
+  onMorphComplete?: (shapeId: string | null) => void;
 }
 
-const ParticleSystem = forwardRef<any, ParticleSystemProps>(({ particleCount, isTransformed }, ref) => {
+// Fastest pointer sweep that still adds force, world units per second
+const MAX_SWEEP_SPEED = 30;
+
+const ParticleSystem = forwardRef<ParticleSystemHandle, ParticleSystemProps>(({
+  particleCount,
+  seed,
+  settings,
+  blending = 'additive',
+  palette = DEFAULT_PALETTE,
+  flap,
+  physics: physicsSettings,
+  initialShape = null,
+  onMorphStart,
+  onMorphProgress,
+  onMorphComplete,
+}, ref) => {
+  const gl = useThree((state) => state.gl);
+  const getState = useThree((state) => state.get);
   const pointsRef = useRef<THREE.Points>(null);
-  const { mouse, viewport } = useThree();
-  const [isFlapping, setIsFlapping] = useState(false);
-  
-  // Initialize particle positions
-  const { positions, originalPositions, colors } = useMemo(() => {
+  const uniforms = useMemo(() => createParticleUniforms(), []);
+  const morphEngine = useMemo(() => createMorphEngine((value) => {
+    uniforms.uProgress.value = value;
+  }), [uniforms]);
+  const burstCountRef = useRef(0);
+  const shapesRef = useRef<{ from: string | null; to: string | null }>({ from: null, to: null });
+  const callbacksRef = useRef({ onMorphStart, onMorphProgress, onMorphComplete });
+  callbacksRef.current = { onMorphStart, onMorphProgress, onMorphComplete };
+
+  // Initialize particle positions; start and target both live on the GPU as attributes
+  const { geometry, originalPositions, originalColors, delays, physics, homes, bounds } = useMemo(() => {
+    const random = createRandom(seed);
+    const pickColor = createPalettePicker(palette);
+    const delayRandom = createRandom(deriveSeed(seed, 1));
     const positions = new Float32Array(particleCount * 3);
     const originalPositions = new Float32Array(particleCount * 3);
     const colors = new Float32Array(particleCount * 3);
-    
+    const delays = new Float32Array(particleCount);
+    const indices = new Float32Array(particleCount);
+
     for (let i = 0; i < particleCount; i++) {
       const i3 = i * 3;
-      
+
       // Random initial positions in a sphere
-      const radius = Math.random() * 15 + 5;
-      const theta = Math.random() * Math.PI * 2;
-      const phi = Math.random() * Math.PI;
-      
+      const radius = random() * 15 + 5;
+      const theta = random() * Math.PI * 2;
+      const phi = random() * Math.PI;
+
       const x = radius * Math.sin(phi) * Math.cos(theta);
       const y = radius * Math.sin(phi) * Math.sin(theta);
       const z = radius * Math.cos(phi);
-      
+
       positions[i3] = x;
       positions[i3 + 1] = y;
       positions[i3 + 2] = z;
-      
+
       originalPositions[i3] = x;
       originalPositions[i3 + 1] = y;
       originalPositions[i3 + 2] = z;
-      
-      // Color variations: gold, red, black
-      const colorType = Math.random();
-      if (colorType < 0.5) {
-        // Gold
-        colors[i3] = 1.0;     // R
-        colors[i3 + 1] = 0.84;  // G
-        colors[i3 + 2] = 0.0;   // B
-      } else if (colorType < 0.8) {
-        // Red
-        colors[i3] = 0.86;     // R
-        colors[i3 + 1] = 0.08;  // G
-        colors[i3 + 2] = 0.24;  // B
-      } else {
-        // Dark/Black
-        colors[i3] = 0.1;      // R
-        colors[i3 + 1] = 0.1;   // G
-        colors[i3 + 2] = 0.1;   // B
-      }
+
+      pickColor(random).toArray(colors, i3);
+
+      delays[i] = delayRandom();
+      indices[i] = i;
+    }
+
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3));
+    geometry.setAttribute('aTarget', new THREE.BufferAttribute(positions.slice(), 3));
+    geometry.setAttribute('aStartColor', new THREE.BufferAttribute(colors.slice(), 3));
+    geometry.setAttribute('aTargetColor', new THREE.BufferAttribute(colors.slice(), 3));
+    geometry.setAttribute('aDelay', new THREE.BufferAttribute(delays, 1));
+    geometry.setAttribute('aIndex', new THREE.BufferAttribute(indices, 1));
+
+    // The shader reads offsets interpolated between simulation steps
+    const physics = createParticlePhysics(particleCount);
+    geometry.setAttribute('aOffset', new THREE.BufferAttribute(new Float32Array(particleCount * 3), 3).setUsage(THREE.DynamicDrawUsage));
+
+    return {
+      geometry,
+      originalPositions,
+      originalColors: colors,
+      delays,
+      physics,
+      homes: new Float32Array(particleCount * 3),
+      bounds: new THREE.Box3().setFromArray(positions).getBoundingSphere(new THREE.Sphere()),
+    };
+  }, [particleCount, seed, palette]);
+
+  // Fresh geometry starts at rest in the cloud, then re-forms whatever shape the old particles held
+  const morphRef = useRef<(shapeId: string, transition?: MorphTransition) => void>();
+  const initialShapeRef = useRef(initialShape);
+  useEffect(() => {
+    const { from, to } = shapesRef.current;
+    const held = (morphEngine.isReversed() ? from : to) ?? initialShapeRef.current;
+    initialShapeRef.current = null;
+    morphEngine.kill();
+    uniforms.uProgress.value = 1;
+    uniforms.uStartFree.value = 1;
+    uniforms.uTargetFree.value = 1;
+    uniforms.uFlap.value = 0;
+    shapesRef.current = { from: null, to: null };
+    if (held !== null && hasShape(held)) {
+      morphRef.current?.(held, { duration: 0.8, stagger: 0 });
+    } else {
+      // The killed morph will never complete, so settle listeners on the cloud the particles now sit in
+      callbacksRef.current.onMorphComplete?.(null);
     }
-    
-    return { positions, originalPositions, colors };
-  }, [particleCount]);
-
-  // Mouse interaction effect
-  useFrame((state) => {
-    if (!pointsRef.current) return;
-    
-    const positions = pointsRef.current.geometry.attributes.position.array as Float32Array;
-    const time = state.clock.getElapsedTime();
-    
-    // Mouse attraction effect
-    const mouseX = (mouse.x * viewport.width) / 2;
-    const mouseY = (mouse.y * viewport.height) / 2;
-    
+    return () => geometry.dispose();
+  }, [geometry, uniforms, morphEngine]);
+
+  const settingsRef = useRef(PARTICLE_DEFAULTS);
+  useEffect(() => {
+    const merged = { ...PARTICLE_DEFAULTS, ...settings };
+    settingsRef.current = merged;
+    uniforms.uSize.value = merged.size;
+    uniforms.uOpacity.value = merged.opacity;
+    uniforms.uFloatAmplitude.value = merged.floatAmplitude;
+  }, [settings, uniforms]);
+
+  const physicsSettingsRef = useRef(PHYSICS_DEFAULTS);
+  useEffect(() => {
+    physicsSettingsRef.current = { ...PHYSICS_DEFAULTS, ...physicsSettings };
+  }, [physicsSettings]);
+
+  const flapSettingsRef = useRef(FLAP_DEFAULTS);
+  useEffect(() => {
+    const settings = { ...FLAP_DEFAULTS, ...flap };
+    flapSettingsRef.current = settings;
+    uniforms.uFlapAmplitude.value = settings.amplitude;
+    uniforms.uFlapLowerAmplitude.value = settings.lowerAmplitude;
+    uniforms.uFlapLowerLag.value = settings.lowerLag;
+    uniforms.uFlapBend.value = settings.bend;
+    uniforms.uBodyBob.value = settings.bob;
+  }, [flap, uniforms]);
+
+  // Ease the wings in and out rather than snapping them
+  const setFlapping = (active: boolean, duration = 0.4) => {
+    gsap.to(uniforms.uFlap, { value: active ? 1 : 0, duration, ease: 'sine.inOut', overwrite: true });
+  };
+
+  // Flap once a formation has fully settled; any reversal folds the wings again
+  useEffect(() => {
+    const offStart = morphEngine.on('start', ({ reversed }) => {
+      const { from, to } = shapesRef.current;
+      gsap.to(uniforms.uFlap, { value: 0, duration: 0.3, overwrite: true });
+      callbacksRef.current.onMorphStart?.(reversed ? to : from, reversed ? from : to);
+    });
+    const offProgress = morphEngine.on('progress', ({ progress, reversed }) => {
+      callbacksRef.current.onMorphProgress?.(reversed ? 1 - progress : progress);
+    });
+    const offComplete = morphEngine.on('complete', ({ progress }) => {
+      // A morph ends on its target at the far end, and back where it began at the near end
+      const { from, to } = shapesRef.current;
+      const settled = progress >= 1 ? to : from;
+      gsap.to(uniforms.uFlap, {
+        value: settled !== null && getShape(settled)?.flap ? 1 : 0,
+        duration: 0.4,
+        ease: 'sine.inOut',
+        overwrite: true,
+      });
+      callbacksRef.current.onMorphComplete?.(settled);
+    });
+    return () => {
+      offStart();
+      offProgress();
+      offComplete();
+      morphEngine.kill();
+      gsap.killTweensOf(uniforms.uFlap);
+    };
+  }, [morphEngine, uniforms]);
+
+  // Pointer ray in the particles' own space, so orbiting, zoom and the flight rig are all accounted for
+  const pointerRay = useMemo(() => new THREE.Ray(), []);
+  const raycaster = useMemo(() => new THREE.Raycaster(), []);
+  const worldToLocal = useMemo(() => new THREE.Matrix4(), []);
+  const hoveringRef = useRef(false);
+  const shockwaves = useMemo(() => createShockwaves(), []);
+
+  const castLocalRay = (ndc: THREE.Vector2, camera: THREE.Camera, out: THREE.Ray) => {
+    const points = pointsRef.current;
+    if (!points) return false;
+    raycaster.setFromCamera(ndc, camera);
+    out.copy(raycaster.ray).applyMatrix4(worldToLocal.copy(points.matrixWorld).invert());
+    return true;
+  };
+
+  useEffect(() => {
+    const canvas = gl.domElement;
+    const enter = () => {
+      hoveringRef.current = true;
+    };
+    const leave = () => {
+      hoveringRef.current = false;
+    };
+    canvas.addEventListener('pointerenter', enter);
+    canvas.addEventListener('pointermove', enter);
+    canvas.addEventListener('pointerleave', leave);
+    return () => {
+      canvas.removeEventListener('pointerenter', enter);
+      canvas.removeEventListener('pointermove', enter);
+      canvas.removeEventListener('pointerleave', leave);
+    };
+  }, [gl]);
+
+  // Pointer motion as the rate the ray moves, split into origin and direction parts so it can be
+  // evaluated at any depth along the ray
+  const previousPointer = useMemo(() => new THREE.Vector2(), []);
+  const previousRay = useMemo(() => new THREE.Ray(), []);
+  const sweepOrigin = useMemo(() => new THREE.Vector3(), []);
+  const sweepDirection = useMemo(() => new THREE.Vector3(), []);
+  const hasPreviousPointerRef = useRef(false);
+
+  const isPointerActive = () => {
+    const { attractRadius, attractStrength, scatterRadius, scatterStrength } = settingsRef.current;
+    return hoveringRef.current && (
+      (attractStrength > 0 && attractRadius > 0) || (scatterStrength > 0 && scatterRadius > 0)
+    );
+  };
+
+  // Whether the pointer ray comes within reach of the sphere the particles' homes stay inside
+  const reachSphere = useMemo(() => new THREE.Sphere(), []);
+  const pointerReaches = () => {
+    const { attractRadius, scatterRadius } = settingsRef.current;
+    reachSphere.set(bounds.center, bounds.radius + Math.max(attractRadius, scatterRadius));
+    return isPointerActive() && pointerRay.intersectsSphere(reachSphere);
+  };
+
+  // Free particles near the pointer ray are pulled towards it, at rest sitting strength × the way there.
+  // Particles in a formation are instead knocked along by a sweeping pointer, and spring back afterwards.
+  // Returns whether any particle was close enough to be pushed.
+  const applyPointerForces = () => {
+    const { attractRadius, attractStrength, scatterRadius, scatterStrength } = settingsRef.current;
+    const { stiffness } = physicsSettingsRef.current;
+    const { forces } = physics;
+    const { origin, direction } = pointerRay;
+    const progress = uniforms.uProgress.value;
+    const stagger = uniforms.uStagger.value;
+    const startFree = uniforms.uStartFree.value;
+    const targetFree = uniforms.uTargetFree.value;
+    const sweeping = sweepOrigin.lengthSq() + sweepDirection.lengthSq() > 0;
+    const reach = Math.max(attractRadius, scatterRadius);
+    let pushed = false;
+
     for (let i = 0; i < particleCount; i++) {
+      // Closest point on the ray; particles behind the camera are left alone
       const i3 = i * 3;
-      
-      if (!isTransformed) {
-        // Free floating particles with mouse attraction
-        const dx = mouseX - positions[i3];
-        const dy = mouseY - positions[i3 + 1];
-        const distance = Math.sqrt(dx * dx + dy * dy);
-        
-        if (distance < 5) {
-          const force = (5 - distance) / 5;
-          positions[i3] += dx * force * 0.02;
-          positions[i3 + 1] += dy * force * 0.02;
-        }
-        
-        // Natural floating motion
-        positions[i3] += Math.sin(time + i * 0.1) * 0.01;
-        positions[i3 + 1] += Math.cos(time + i * 0.15) * 0.01;
-        positions[i3 + 2] += Math.sin(time + i * 0.2) * 0.005;
-      } else if (isFlapping) {
-        // Wing flapping animation
-        const butterflyPos = butterflyShape[i];
-        if (butterflyPos) {
-          const flapIntensity = Math.sin(time * 8) * 0.3;
-          positions[i3 + 2] = butterflyPos.z + flapIntensity * Math.abs(butterflyPos.x) * 0.1;
-        }
+      const px = homes[i3] - origin.x;
+      const py = homes[i3 + 1] - origin.y;
+      const pz = homes[i3 + 2] - origin.z;
+      const along = px * direction.x + py * direction.y + pz * direction.z;
+      if (along <= 0) continue;
+
+      const dx = direction.x * along - px;
+      const dy = direction.y * along - py;
+      const dz = direction.z * along - pz;
+      const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+      if (dist >= reach) continue;
+
+      const free = THREE.MathUtils.lerp(startFree, targetFree, localProgress(progress, delays[i], stagger));
+      if (free > 0 && dist < attractRadius) {
+        pushed = true;
+        const pull = stiffness * attractStrength * free * (attractRadius - dist) / attractRadius;
+        forces[i3] += dx * pull;
+        forces[i3 + 1] += dy * pull;
+        forces[i3 + 2] += dz * pull;
+      }
+
+      if (free < 1 && sweeping && dist < scatterRadius) {
+        // Velocity of the ray at this particle's depth, capped so a jump across the screen is not a blast
+        let vx = sweepOrigin.x + sweepDirection.x * along;
+        let vy = sweepOrigin.y + sweepDirection.y * along;
+        let vz = sweepOrigin.z + sweepDirection.z * along;
+        const speed = Math.sqrt(vx * vx + vy * vy + vz * vz);
+        if (speed < 1e-3) continue;
+        const cap = Math.min(speed, MAX_SWEEP_SPEED) / speed;
+        vx *= cap;
+        vy *= cap;
+        vz *= cap;
+
+        // Along the sweep, plus a little away from the ray so the particles part around it
+        const spread = (speed * cap * 0.5) / (dist || 1);
+        const push = scatterStrength * (1 - free) * (scatterRadius - dist) / scatterRadius;
+        forces[i3] += (vx - dx * spread) * push;
+        forces[i3 + 1] += (vy - dy * spread) * push;
+        forces[i3 + 2] += (vz - dz * spread) * push;
+        pushed = true;
       }
     }
-    
-    pointsRef.current.geometry.attributes.position.needsUpdate = true;
+    return pushed;
+  };
+
+  const stepLoop = useMemo(() => createFixedStepLoop(), []);
+  const movingRef = useRef(false);
+
+  // One simulation step; settled particles with nothing pushing them skip the integrator
+  const simulate = (dt: number) => {
+    const pointing = pointerReaches();
+    const waving = shockwaves.isActive();
+    if (pointing || waving) samplePositions(homes);
+
+    let pushed = pointing && applyPointerForces();
+    if (waving) pushed = shockwaves.apply(homes, physics.forces, particleCount, dt) || pushed;
+    if (pushed || physics.isActive()) physics.step(dt, physicsSettingsRef.current);
+  };
+
+  // Start a wave where the pointer ray crosses a view-facing plane through the middle of the particles
+  const launchShockwave = ({ pointer, ...settings }: ShockwaveOptions = {}) => {
+    const { camera, pointer: current } = getState();
+    const ray = new THREE.Ray();
+    if (!castLocalRay(pointer ? new THREE.Vector2(pointer.x, pointer.y) : current, camera, ray)) return;
+
+    const along = Math.max(-ray.origin.dot(ray.direction), 0);
+    shockwaves.launch(ray.at(along, new THREE.Vector3()), settings);
+  };
+
+  // Uniforms drive the morph and flap on the GPU; the CPU integrates displacement from home in fixed steps
+  useFrame((state, delta) => {
+    uniforms.uTime.value = state.clock.getElapsedTime();
+    uniforms.uFlapPhase.value = (uniforms.uFlapPhase.value + delta * flapSettingsRef.current.frequency * Math.PI * 2) % (Math.PI * 2);
+    uniforms.uScale.value = (state.size.height * state.viewport.dpr) / 2;
+    castLocalRay(state.pointer, state.camera, pointerRay);
+
+    // Only pointer movement counts as a sweep; the previous pointer is re-cast through the current camera
+    // so orbiting the view does not scatter anything by itself
+    sweepOrigin.set(0, 0, 0);
+    sweepDirection.set(0, 0, 0);
+    if (hoveringRef.current && hasPreviousPointerRef.current && delta > 0
+      && castLocalRay(previousPointer, state.camera, previousRay)) {
+      sweepOrigin.subVectors(pointerRay.origin, previousRay.origin).divideScalar(delta);
+      sweepDirection.subVectors(pointerRay.direction, previousRay.direction).divideScalar(delta);
+    }
+    previousPointer.copy(state.pointer);
+    hasPreviousPointerRef.current = hoveringRef.current;
+
+    const alpha = stepLoop.advance(delta, simulate);
+    shockwaves.writeUniforms(uniforms.uWaves.value, uniforms.uWaveGlow.value);
+
+    // Frames between steps still interpolate; once at rest, one last upload lands on the final state.
+    // Only the part of the buffer the steps changed is sent to the GPU.
+    const moving = physics.isActive();
+    if (!moving && !movingRef.current) return;
+    movingRef.current = moving;
+    const offsets = geometry.attributes.aOffset as THREE.BufferAttribute;
+    const { start, end } = physics.interpolate(moving ? alpha : 1, offsets.array as Float32Array);
+    if (end <= start) return;
+    offsets.addUpdateRange(start, end - start);
+    offsets.needsUpdate = true;
   });
 
-  const transformToButterly = () => {
-    if (!pointsRef.current) return;
-    
-    const positions = pointsRef.current.geometry.attributes.position.array as Float32Array;
-    
-    // Animate particles to butterfly shape
-    for (let i = 0; i < Math.min(particleCount, butterflyShape.length); i++) {
+  // CPU mirror of the shader interpolation between a start and target attribute
+  const sampleAttribute = (startName: string, targetName: string, out: Float32Array) => {
+    const start = geometry.attributes[startName].array as Float32Array;
+    const target = geometry.attributes[targetName].array as Float32Array;
+    const progress = uniforms.uProgress.value;
+    const stagger = uniforms.uStagger.value;
+
+    for (let i = 0; i < particleCount; i++) {
       const i3 = i * 3;
-      const targetPos = butterflyShape[i];
-      
-      gsap.to(positions, {
-        duration: 2,
-        ease: "power2.out",
-        delay: Math.random() * 0.5,
-        [i3]: targetPos.x,
-        [i3 + 1]: targetPos.y,
-        [i3 + 2]: targetPos.z,
-        onUpdate: () => {
-          if (pointsRef.current) {
-            pointsRef.current.geometry.attributes.position.needsUpdate = true;
-          }
-        },
-        onComplete: () => {
-          if (i === Math.min(particleCount, butterflyShape.length) - 1) {
-            setIsFlapping(true);
-          }
-        }
-      });
+      const t = localProgress(progress, delays[i], stagger);
+      out[i3] = start[i3] + (target[i3] - start[i3]) * t;
+      out[i3 + 1] = start[i3 + 1] + (target[i3 + 1] - start[i3 + 1]) * t;
+      out[i3 + 2] = start[i3 + 2] + (target[i3 + 2] - start[i3 + 2]) * t;
     }
+    return out;
   };
 
-  const resetParticles = () => {
-    if (!pointsRef.current) return;
-    
-    setIsFlapping(false);
-    const positions = pointsRef.current.geometry.attributes.position.array as Float32Array;
-    
-    // Animate back to original positions
+  // Positions without the float and flap offsets
+  const samplePositions = (out: Float32Array) => sampleAttribute('position', 'aTarget', out);
+  const sampleColors = (out: Float32Array) => sampleAttribute('aStartColor', 'aTargetColor', out);
+
+  // Bake the current interpolated state into the start attributes so a new morph begins where particles are
+  const captureStart = () => {
+    const progress = uniforms.uProgress.value;
+    samplePositions(geometry.attributes.position.array as Float32Array);
+    sampleColors(geometry.attributes.aStartColor.array as Float32Array);
+
+    uniforms.uStartFree.value = THREE.MathUtils.lerp(uniforms.uStartFree.value, uniforms.uTargetFree.value, progress);
+    geometry.attributes.position.needsUpdate = true;
+    geometry.attributes.aStartColor.needsUpdate = true;
+  };
+
+  const morphTo = (
+    shapeId: string | null,
+    targets: Float32Array,
+    targetColors: Float32Array,
+    { duration = 2, ease = 'power2.out', stagger = PARTICLE_DEFAULTS.stagger }: MorphTransition
+  ) => {
+    // A bad ease must fail before the running morph is killed and its state baked in
+    resolveEase(ease);
+    const free = shapeId === null;
+    const { from, to } = shapesRef.current;
+    shapesRef.current = { from: morphEngine.isReversed() ? from : to, to: shapeId };
+    morphEngine.kill();
+    captureStart();
+
+    const target = geometry.attributes.aTarget.array as Float32Array;
+    target.set(targets);
+    geometry.attributes.aTarget.needsUpdate = true;
+
+    // Every particle stays between its start and target, so a sphere around both holds them throughout
+    const box = new THREE.Box3().setFromArray(geometry.attributes.position.array);
+    box.union(new THREE.Box3().setFromArray(target)).getBoundingSphere(bounds);
+    (geometry.attributes.aTargetColor.array as Float32Array).set(targetColors);
+    geometry.attributes.aTargetColor.needsUpdate = true;
+
+    uniforms.uTargetFree.value = free ? 1 : 0;
+    uniforms.uStagger.value = stagger;
+    gsap.killTweensOf(uniforms.uFlap);
+    uniforms.uFlap.value = 0;
+
+    // One timeline drives every particle through the progress uniform
+    morphEngine.play({ duration, ease });
+  };
+
+  const morph = (shapeId: string, transition: MorphTransition = {}) => {
+    const { points, colors } = generateShape(shapeId, particleCount, seed);
+    if (points.length === 0) return;
+
+    // Every particle gets a target, reusing points if the shape has fewer; uncoloured shapes keep the cloud palette
+    const targets = new Float32Array(particleCount * 3);
+    const targetColors = originalColors.slice();
+    for (let i = 0; i < particleCount; i++) {
+      const j = i % points.length;
+      points[j].toArray(targets, i * 3);
+      colors?.[j]?.toArray(targetColors, i * 3);
+    }
+
+    morphTo(shapeId, targets, targetColors, transition);
+  };
+  morphRef.current = morph;
+
+  const reset = (transition: MorphTransition = {}) => {
+    morphTo(null, originalPositions, originalColors, { duration: 1, stagger: 0.3, ...transition });
+  };
+
+  // Throw the particles outward from the centre; they float freely until the next morph or reset
+  const burst = ({ strength = 6, ...transition }: BurstOptions = {}) => {
+    const random = createRandom(deriveSeed(seed, ++burstCountRef.current));
+    const targets = samplePositions(new Float32Array(particleCount * 3));
+    const direction = new THREE.Vector3();
+
     for (let i = 0; i < particleCount; i++) {
       const i3 = i * 3;
-      
-      gsap.to(positions, {
-        duration: 1,
-        ease: "power2.out",
-        delay: Math.random() * 0.3,
-        [i3]: originalPositions[i3],
-        [i3 + 1]: originalPositions[i3 + 1],
-        [i3 + 2]: originalPositions[i3 + 2],
-        onUpdate: () => {
-          if (pointsRef.current) {
-            pointsRef.current.geometry.attributes.position.needsUpdate = true;
-          }
-        }
-      });
+      direction.fromArray(targets, i3);
+      if (direction.lengthSq() < 1e-6) direction.randomDirection();
+      direction.normalize().multiplyScalar(strength * (0.5 + random()));
+      targets[i3] += direction.x;
+      targets[i3 + 1] += direction.y;
+      targets[i3 + 2] += direction.z;
     }
+
+    morphTo(null, targets, sampleColors(new Float32Array(particleCount * 3)), { duration: 1, ease: 'expo.out', stagger: 0.1, ...transition });
+  };
+
+  const currentShape = () => {
+    const { from, to } = shapesRef.current;
+    return morphEngine.isReversed() ? from : to;
   };
 
   useImperativeHandle(ref, () => ({
-    transformToButterly,
-    resetParticles
+    morph,
+    reset,
+    pause: morphEngine.pause,
+    resume: morphEngine.resume,
+    reverse: morphEngine.reverse,
+    seek: morphEngine.seek,
+    setSpeed: morphEngine.setSpeed,
+    startFlap: () => setFlapping(true),
+    stopFlap: () => setFlapping(false),
+    burst,
+    shockwave: launchShockwave,
+    snapshot: () => ({
+      positions: samplePositions(new Float32Array(particleCount * 3)),
+      colors: sampleColors(new Float32Array(particleCount * 3)),
+      shapeId: currentShape(),
+    }),
+    getState: () => ({
+      shapeId: currentShape(),
+      isMorphing: morphEngine.isActive(),
+      isPaused: morphEngine.isPaused(),
+      isFlapping: uniforms.uFlap.value > 0,
+      progress: morphEngine.progress(),
+      speed: morphEngine.getSpeed(),
+      particleCount,
+      seed,
+    }),
+    on: morphEngine.on,
   }));
 
   return (
-    <Points ref={pointsRef} positions={positions} colors={colors}>
-      <PointMaterial
-        size={0.05}
-        sizeAttenuation={true}
+    <points ref={pointsRef} geometry={geometry} frustumCulled={false}>
+      <shaderMaterial
+        uniforms={uniforms}
+        vertexShader={particleVertexShader}
+        fragmentShader={particleFragmentShader}
         transparent={true}
-        opacity={0.8}
-        vertexColors={true}
-        blending={THREE.AdditiveBlending}
+        depthWrite={false}
+        blending={PARTICLE_BLENDING[blending]}
       />
-    </Points>
+    </points>
   );
 });
 
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Input } from './ui/input';
+import { ScrollArea } from './ui/scroll-area';
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from './ui/sheet';
+import { usePresets } from '../hooks/use-presets';
+import type { Preset, PresetScene } from '../utils/presets';
+
+interface PresetDrawerProps {
+  // Snapshot of the scene as it is right now, taken when saving
+  getCurrentScene: () => PresetScene;
+  onApply: (preset: Preset) => void;
+}
+
+const PresetDrawer = ({ getCurrentScene, onApply }: PresetDrawerProps) => {
+  const { presets, skipped, error, save, rename, duplicate, remove } = usePresets();
+  const [name, setName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+
+  const handleSave = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!name.trim()) return;
+    save(name, getCurrentScene());
+    setName('');
+  };
+
+  const startRename = (preset: Preset) => {
+    setEditingId(preset.id);
+    setEditingName(preset.name);
+  };
+
+  const commitRename = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (editingId && editingName.trim()) rename(editingId, editingName);
+    setEditingId(null);
+  };
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+        >
+          Presets 💾
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="flex flex-col">
+        <SheetHeader>
+          <SheetTitle>Presets</SheetTitle>
+          <SheetDescription>
+            Save the current shape, palette, physics and camera, and bring them back later. Presets stay in this browser.
+          </SheetDescription>
+        </SheetHeader>
+
+        {error ? (
+          <p className="text-destructive text-sm">{error}</p>
+        ) : (
+          <form onSubmit={handleSave} className="flex gap-2">
+            <Input
+              value={name}
+              onChange={(event) => setName(event.target.value)}
+              placeholder="Preset name"
+              maxLength={40}
+            />
+            <Button type="submit" disabled={!name.trim()}>Save</Button>
+          </form>
+        )}
+
+        {skipped.length > 0 && (
+          <p className="text-muted-foreground text-sm" title={skipped.join('\n\n')}>
+            {skipped.length === 1 ? '1 saved preset' : `${skipped.length} saved presets`} could not be read by this
+            version. They are kept in storage unchanged.
+          </p>
+        )}
+
+        <ScrollArea className="flex-1 -mx-2">
+          <ul className="space-y-2 px-2">
+            {presets.length === 0 && !error && (
+              <li className="text-muted-foreground text-sm">No presets yet.</li>
+            )}
+            {presets.map((preset) => (
+              <li key={preset.id} className="rounded-md border p-3 space-y-2">
+                {editingId === preset.id ? (
+                  <form onSubmit={commitRename} className="flex gap-2">
+                    <Input
+                      value={editingName}
+                      onChange={(event) => setEditingName(event.target.value)}
+                      maxLength={40}
+                      autoFocus
+                    />
+                    <Button type="submit" size="sm" disabled={!editingName.trim()}>OK</Button>
+                  </form>
+                ) : (
+                  <div className="flex justify-between items-baseline gap-2">
+                    <span className="font-medium truncate">{preset.name}</span>
+                    <span className="text-muted-foreground text-xs shrink-0">
+                      {new Date(preset.updatedAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                )}
+                <div className="flex gap-1">
+                  <Button size="sm" onClick={() => onApply(preset)}>Apply</Button>
+                  <Button size="sm" variant="ghost" onClick={() => startRename(preset)} disabled={editingId === preset.id}>
+                    Rename
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => duplicate(preset.id)}>Duplicate</Button>
+                  <Button size="sm" variant="ghost" className="text-destructive" onClick={() => remove(preset.id)}>
+                    Delete
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default PresetDrawer;
@@ -0,0 +1,135 @@
+import React, { useEffect, useRef, useState } from 'react';
+import gsap from 'gsap';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from './ui/sonner';
+import type { CanvasRecorderHandle } from './CanvasRecorder';
+import { RECORDING_DURATIONS, RECORDING_FRAME_RATES, RECORDING_RESOLUTIONS } from '../utils/recording';
+import { downloadBlob, timestampedFileName } from '../utils/download';
+
+interface RecordControlsProps {
+  recorderRef: React.RefObject<CanvasRecorderHandle>;
+  // Fired as a fixed-length take begins, so the recording opens on the transformation
+  onAutoStart?: () => void;
+}
+
+const RecordControls = ({ recorderRef, onAutoStart }: RecordControlsProps) => {
+  const [resolution, setResolution] = useState(RECORDING_RESOLUTIONS[1].id);
+  const [fps, setFps] = useState(String(RECORDING_FRAME_RATES[1]));
+  const [duration, setDuration] = useState('manual');
+  const [isRecording, setIsRecording] = useState(false);
+  const [elapsed, setElapsed] = useState(0);
+  const timerRef = useRef<gsap.core.Tween | null>(null);
+  const clockRef = useRef<ReturnType<typeof setInterval>>();
+
+  const stop = async () => {
+    timerRef.current?.kill();
+    timerRef.current = null;
+    clearInterval(clockRef.current);
+    setIsRecording(false);
+
+    const recorder = recorderRef.current;
+    if (!recorder?.isRecording()) return;
+    try {
+      downloadBlob(await recorder.stop(), timestampedFileName('webm'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Recording failed');
+    }
+  };
+
+  const start = () => {
+    const recorder = recorderRef.current;
+    if (!recorder) return;
+    const { width, height } = RECORDING_RESOLUTIONS.find((option) => option.id === resolution) ?? RECORDING_RESOLUTIONS[1];
+
+    try {
+      recorder.start({ width, height, fps: Number(fps) });
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not start recording');
+      return;
+    }
+
+    setIsRecording(true);
+    setElapsed(0);
+    const startedAt = performance.now();
+    clockRef.current = setInterval(() => setElapsed((performance.now() - startedAt) / 1000), 250);
+
+    if (duration !== 'manual') {
+      onAutoStart?.();
+      timerRef.current = gsap.delayedCall(Number(duration), stop);
+    }
+  };
+
+  // Leaving the page mid-take stops the timers; the recorder discards the take itself
+  useEffect(() => () => {
+    timerRef.current?.kill();
+    clearInterval(clockRef.current);
+  }, []);
+
+  if (isRecording) {
+    return (
+      <Button
+        onClick={stop}
+        variant="outline"
+        className="border-red-500/60 text-red-400 hover:bg-red-500/10 px-6 py-3 rounded-full tabular-nums"
+      >
+        ⏹ {elapsed.toFixed(1)}s
+      </Button>
+    );
+  }
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+        >
+          Record ⏺
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <div className="space-y-1">
+          <Label>Resolution</Label>
+          <Select value={resolution} onValueChange={setResolution}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RECORDING_RESOLUTIONS.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Frame rate</Label>
+          <Select value={fps} onValueChange={setFps}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RECORDING_FRAME_RATES.map((rate) => (
+                <SelectItem key={rate} value={String(rate)}>{rate} fps</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label>Length</Label>
+          <Select value={duration} onValueChange={setDuration}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {RECORDING_DURATIONS.map((seconds) => (
+                <SelectItem key={seconds ?? 'manual'} value={seconds === null ? 'manual' : String(seconds)}>
+                  {seconds === null ? 'Until stopped' : `${seconds}s with Transform`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <Button className="w-full" onClick={start}>Start recording</Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default RecordControls;
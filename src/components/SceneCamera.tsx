@@ -0,0 +1,25 @@
+import { useEffect } from 'react';
+import { useThree } from '@react-three/fiber';
+import * as THREE from 'three';
+
+interface SceneCameraProps {
+  position: [number, number, number];
+  fov: number;
+}
+
+// Applies camera settings whenever a new pose is handed in; Canvas only reads its camera prop once
+const SceneCamera = ({ position, fov }: SceneCameraProps) => {
+  const camera = useThree((state) => state.camera);
+
+  useEffect(() => {
+    camera.position.fromArray(position);
+    if (camera instanceof THREE.PerspectiveCamera) {
+      camera.fov = fov;
+      camera.updateProjectionMatrix();
+    }
+  }, [camera, position, fov]);
+
+  return null;
+};
+
+export default SceneCamera;
@@ -0,0 +1,309 @@
+import React, { useState } from 'react';
+import { Card } from './ui/card';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Slider } from './ui/slider';
+import { Switch } from './ui/switch';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from './ui/collapsible';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { PARTICLE_BLENDING, type ParticleBlending } from '../utils/particleShader';
+import { MORPH_EASES } from '../utils/morphEngine';
+import { PALETTES, findPalette } from '../utils/palettes';
+import type { SceneConfig } from '../utils/sceneConfig';
+
+interface SliderFieldProps {
+  id: string;
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  format?: (value: number) => string;
+  // Only report the value once the thumb is released, for settings that are costly to apply
+  commitOnRelease?: boolean;
+  onChange: (value: number) => void;
+}
+
+const SliderField = ({ id, label, value, min, max, step, format = String, commitOnRelease = false, onChange }: SliderFieldProps) => {
+  const [draft, setDraft] = useState<number | null>(null);
+  const shown = draft ?? value;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between items-center">
+        <Label htmlFor={id} className="text-slate-300">{label}</Label>
+        <span className="text-gold-400 text-sm tabular-nums">{format(shown)}</span>
+      </div>
+      <Slider
+        id={id}
+        value={[shown]}
+        min={min}
+        max={max}
+        step={step}
+        onValueChange={([next]) => (commitOnRelease ? setDraft(next) : onChange(next))}
+        onValueCommit={([next]) => {
+          if (!commitOnRelease) return;
+          setDraft(null);
+          onChange(next);
+        }}
+      />
+    </div>
+  );
+};
+
+interface SettingsPanelProps {
+  config: SceneConfig;
+  onChange: (config: SceneConfig) => void;
+}
+
+const fixed = (digits: number) => (value: number) => value.toFixed(digits);
+
+// Live controls over the scene config; every change is applied without remounting the canvas
+const SettingsPanel = ({ config, onChange }: SettingsPanelProps) => {
+  const [open, setOpen] = useState(false);
+
+  const update = <K extends 'particles' | 'physics' | 'morph' | 'flap' | 'controls' | 'stars'>(
+    section: K,
+    values: Partial<SceneConfig[K]>
+  ) => {
+    onChange({ ...config, [section]: Object.assign({}, config[section], values) });
+  };
+
+  return (
+    <Card className="p-4 bg-black/20 backdrop-blur-md border-gold-500/30 w-[280px]">
+      <Collapsible open={open} onOpenChange={setOpen}>
+        <div className="flex justify-between items-center">
+          <span className="text-gold-400 font-semibold">Settings</span>
+          <CollapsibleTrigger asChild>
+            <Button size="sm" variant="ghost" className="text-slate-300 hover:text-gold-400">
+              {open ? 'Hide' : 'Show'} 🎛️
+            </Button>
+          </CollapsibleTrigger>
+        </div>
+
+        <CollapsibleContent>
+          <Tabs defaultValue="particles" className="mt-3">
+            <TabsList className="grid grid-cols-3 w-full">
+              <TabsTrigger value="particles">Particles</TabsTrigger>
+              <TabsTrigger value="motion">Motion</TabsTrigger>
+              <TabsTrigger value="scene">Scene</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="particles" className="space-y-4 pt-2">
+              <SliderField
+                id="settings-count"
+                label="Count"
+                value={config.particles.count}
+                min={100}
+                max={20000}
+                step={100}
+                format={(value) => value.toLocaleString()}
+                commitOnRelease
+                onChange={(count) => update('particles', { count })}
+              />
+              <SliderField
+                id="settings-size"
+                label="Point size"
+                value={config.particles.size}
+                min={0.01}
+                max={0.2}
+                step={0.005}
+                format={fixed(3)}
+                onChange={(size) => update('particles', { size })}
+              />
+              <SliderField
+                id="settings-opacity"
+                label="Opacity"
+                value={config.particles.opacity}
+                min={0.05}
+                max={1}
+                step={0.05}
+                format={fixed(2)}
+                onChange={(opacity) => update('particles', { opacity })}
+              />
+              <div className="space-y-2">
+                <Label className="text-slate-300">Blending</Label>
+                <Select
+                  value={config.particles.blending}
+                  onValueChange={(blending) => update('particles', { blending: blending as ParticleBlending })}
+                >
+                  <SelectTrigger className="bg-black/30 border-gold-500/30 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.keys(PARTICLE_BLENDING).map((mode) => (
+                      <SelectItem key={mode} value={mode} className="capitalize">{mode}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label className="text-slate-300">Palette</Label>
+                <Select
+                  value={findPalette(config.particles.palette) ?? 'custom'}
+                  onValueChange={(id) => update('particles', { palette: PALETTES[id].entries })}
+                >
+                  <SelectTrigger className="bg-black/30 border-gold-500/30 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Palettes loaded from a config or link show as custom until replaced */}
+                    {!findPalette(config.particles.palette) && <SelectItem value="custom">Custom</SelectItem>}
+                    {Object.entries(PALETTES).map(([id, palette]) => (
+                      <SelectItem key={id} value={id}>{palette.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="motion" className="space-y-4 pt-2">
+              <SliderField
+                id="settings-float"
+                label="Float amplitude"
+                value={config.particles.floatAmplitude}
+                min={0}
+                max={2}
+                step={0.05}
+                format={fixed(2)}
+                onChange={(floatAmplitude) => update('particles', { floatAmplitude })}
+              />
+              <SliderField
+                id="settings-attract-radius"
+                label="Mouse radius"
+                value={config.particles.attractRadius}
+                min={0.5}
+                max={15}
+                step={0.5}
+                format={fixed(1)}
+                onChange={(attractRadius) => update('particles', { attractRadius })}
+              />
+              <SliderField
+                id="settings-attract-strength"
+                label="Mouse strength"
+                value={config.particles.attractStrength}
+                min={0}
+                max={1}
+                step={0.01}
+                format={fixed(2)}
+                onChange={(attractStrength) => update('particles', { attractStrength })}
+              />
+              <SliderField
+                id="settings-scatter-radius"
+                label="Scatter radius"
+                value={config.particles.scatterRadius}
+                min={0.1}
+                max={3}
+                step={0.1}
+                format={fixed(1)}
+                onChange={(scatterRadius) => update('particles', { scatterRadius })}
+              />
+              <SliderField
+                id="settings-scatter-strength"
+                label="Scatter strength"
+                value={config.particles.scatterStrength}
+                min={0}
+                max={30}
+                step={0.5}
+                format={fixed(1)}
+                onChange={(scatterStrength) => update('particles', { scatterStrength })}
+              />
+              <SliderField
+                id="settings-stiffness"
+                label="Return spring"
+                value={config.physics.stiffness}
+                min={0.5}
+                max={40}
+                step={0.5}
+                format={fixed(1)}
+                onChange={(stiffness) => update('physics', { stiffness })}
+              />
+              <SliderField
+                id="settings-damping"
+                label="Damping"
+                value={config.physics.damping}
+                min={0}
+                max={20}
+                step={0.25}
+                format={fixed(2)}
+                onChange={(damping) => update('physics', { damping })}
+              />
+              <SliderField
+                id="settings-morph-duration"
+                label="Morph duration"
+                value={config.morph.duration}
+                min={0.2}
+                max={6}
+                step={0.1}
+                format={(value) => `${value.toFixed(1)}s`}
+                onChange={(duration) => update('morph', { duration })}
+              />
+              <div className="space-y-2">
+                <Label className="text-slate-300">Easing</Label>
+                <Select value={config.morph.ease} onValueChange={(ease) => update('morph', { ease })}>
+                  <SelectTrigger className="bg-black/30 border-gold-500/30 text-slate-200">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {/* Keep an ease loaded from a config selectable even if it is not in the list */}
+                    {!MORPH_EASES.some((ease) => ease.id === config.morph.ease) && (
+                      <SelectItem value={config.morph.ease}>{config.morph.ease}</SelectItem>
+                    )}
+                    {MORPH_EASES.map((ease) => (
+                      <SelectItem key={ease.id} value={ease.id}>{ease.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <SliderField
+                id="settings-flap-speed"
+                label="Flap speed"
+                value={config.flap.frequency}
+                min={0}
+                max={4}
+                step={0.1}
+                format={(value) => `${value.toFixed(1)} Hz`}
+                onChange={(frequency) => update('flap', { frequency })}
+              />
+            </TabsContent>
+
+            <TabsContent value="scene" className="space-y-4 pt-2">
+              <div className="flex items-center gap-2">
+                <Switch
+                  id="settings-auto-rotate"
+                  checked={config.controls.autoRotate}
+                  onCheckedChange={(autoRotate) => update('controls', { autoRotate })}
+                />
+                <Label htmlFor="settings-auto-rotate" className="text-slate-300">Auto-rotate</Label>
+              </div>
+              <SliderField
+                id="settings-rotate-speed"
+                label="Rotate speed"
+                value={config.controls.autoRotateSpeed}
+                min={0}
+                max={5}
+                step={0.1}
+                format={fixed(1)}
+                onChange={(autoRotateSpeed) => update('controls', { autoRotateSpeed })}
+              />
+              <SliderField
+                id="settings-stars"
+                label="Stars"
+                value={config.stars.count}
+                min={0}
+                max={10000}
+                step={250}
+                format={(value) => value.toLocaleString()}
+                commitOnRelease
+                onChange={(count) => update('stars', { count })}
+              />
+            </TabsContent>
+          </Tabs>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+};
+
+export default SettingsPanel;
@@ -0,0 +1,74 @@
+import React, { useState } from 'react';
+import { Button } from './ui/button';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Popover, PopoverContent, PopoverTrigger } from './ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
+import { toast } from './ui/sonner';
+import type { CanvasSnapshotHandle } from './CanvasSnapshot';
+import { SNAPSHOT_SIZES } from '../utils/snapshot';
+import { downloadBlob, timestampedFileName } from '../utils/download';
+
+interface SnapshotControlsProps {
+  snapshotRef: React.RefObject<CanvasSnapshotHandle>;
+  onHideUi: () => void;
+}
+
+const SnapshotControls = ({ snapshotRef, onHideUi }: SnapshotControlsProps) => {
+  const [sizeId, setSizeId] = useState(SNAPSHOT_SIZES[3].id);
+  const [transparent, setTransparent] = useState(false);
+  const [isCapturing, setIsCapturing] = useState(false);
+
+  const handleCapture = async () => {
+    const snapshot = snapshotRef.current;
+    if (!snapshot) return;
+
+    setIsCapturing(true);
+    try {
+      const size = SNAPSHOT_SIZES.find((option) => option.id === sizeId);
+      downloadBlob(await snapshot.capture({ size, transparent }), timestampedFileName('png'));
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not take a snapshot');
+    } finally {
+      setIsCapturing(false);
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+        >
+          Snapshot 📷
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-64 space-y-3">
+        <div className="space-y-1">
+          <Label>Size</Label>
+          <Select value={sizeId} onValueChange={setSizeId}>
+            <SelectTrigger><SelectValue /></SelectTrigger>
+            <SelectContent>
+              {SNAPSHOT_SIZES.map((option) => (
+                <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2">
+          <Switch id="snapshot-transparent" checked={transparent} onCheckedChange={setTransparent} />
+          <Label htmlFor="snapshot-transparent">Transparent background</Label>
+        </div>
+        <Button className="w-full" onClick={handleCapture} disabled={isCapturing}>
+          {isCapturing ? 'Rendering…' : 'Save PNG'}
+        </Button>
+        <Button variant="ghost" className="w-full" onClick={onHideUi}>
+          Hide interface (H)
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SnapshotControls;
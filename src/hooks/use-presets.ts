@@ -0,0 +1,92 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { toast } from '../components/ui/sonner';
+import {
+  PRESET_STORAGE_KEY,
+  createPreset,
+  deletePreset,
+  duplicatePreset,
+  loadPresets,
+  renamePreset,
+  savePresets,
+  type Preset,
+  type PresetScene,
+} from '../utils/presets';
+
+interface PresetLibrary {
+  presets: Preset[];
+  // Problems with stored presets that could not be read; their entries are kept in storage as they are
+  skipped: string[];
+  unreadable: unknown[];
+  error: string | null;
+}
+
+const readLibrary = (): PresetLibrary => {
+  try {
+    const { presets, skipped, unreadable } = loadPresets();
+    return { presets, skipped, unreadable, error: null };
+  } catch (error) {
+    return { presets: [], skipped: [], unreadable: [], error: error instanceof Error ? error.message : String(error) };
+  }
+};
+
+// Preset library kept in localStorage and in sync across tabs
+export const usePresets = () => {
+  const [library, setLibrary] = useState(readLibrary);
+  const libraryRef = useRef(library);
+  libraryRef.current = library;
+
+  useEffect(() => {
+    const handleStorage = (event: StorageEvent) => {
+      if (event.key === PRESET_STORAGE_KEY) setLibrary(readLibrary());
+    };
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
+  // A library that failed to load is left untouched in storage rather than overwritten, and the list only
+  // changes once storage has accepted it
+  const update = useCallback((change: (presets: Preset[]) => Preset[]) => {
+    const current = libraryRef.current;
+    if (current.error) return;
+
+    const presets = change(current.presets);
+    try {
+      savePresets(presets, current.unreadable);
+    } catch (error) {
+      toast.error('Could not save presets', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+      return;
+    }
+
+    const next = { ...current, presets };
+    libraryRef.current = next;
+    setLibrary(next);
+  }, []);
+
+  const save = useCallback((name: string, scene: PresetScene) => {
+    update((presets) => [...presets, createPreset(name, scene)]);
+  }, [update]);
+
+  const rename = useCallback((id: string, name: string) => {
+    update((presets) => renamePreset(presets, id, name));
+  }, [update]);
+
+  const duplicate = useCallback((id: string) => {
+    update((presets) => duplicatePreset(presets, id));
+  }, [update]);
+
+  const remove = useCallback((id: string) => {
+    update((presets) => deletePreset(presets, id));
+  }, [update]);
+
+  return {
+    presets: library.presets,
+    skipped: library.skipped,
+    error: library.error,
+    save,
+    rename,
+    duplicate,
+    remove,
+  };
+};
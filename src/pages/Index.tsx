@@ -1,118 +1,334 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
+import { useSearchParams } from 'react-router-dom';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls, Stars } from '@react-three/drei';
-import ParticleSystem from '../components/ParticleSystem';
+import ParticleSystem, { type ParticleSystemHandle } from '../components/ParticleSystem';
+import FlightRig from '../components/FlightRig';
+import ChoreographyPanel from '../components/ChoreographyPanel';
+import SceneCamera from '../components/SceneCamera';
+import SettingsPanel from '../components/SettingsPanel';
+import PresetDrawer from '../components/PresetDrawer';
+import CanvasRecorder, { type CanvasRecorderHandle } from '../components/CanvasRecorder';
+import RecordControls from '../components/RecordControls';
+import CanvasSnapshot, { type CanvasSnapshotHandle } from '../components/CanvasSnapshot';
+import SnapshotControls from '../components/SnapshotControls';
 import { Button } from '../components/ui/button';
 import { Card } from '../components/ui/card';
 import { Progress } from '../components/ui/progress';
 import { Badge } from '../components/ui/badge';
+import { Input } from '../components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../components/ui/select';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '../components/ui/dropdown-menu';
+import { toast } from '../components/ui/sonner';
 import gsap from 'gsap';
+import { parseSeed, randomSeed } from '../utils/random';
+import { getShape, hasShape } from '../utils/shapes';
+import { IMAGE_FILE_TYPES, importImageShape } from '../utils/imageShape';
+import { MODEL_FILE_EXTENSIONS, importModelShape, modelFormatFromFileName } from '../utils/modelShape';
+import { TEXT_FONTS, TEXT_SHAPE_ID, getTextShapeSource, registerTextShape } from '../utils/textShape';
+import {
+  DEFAULT_SCENE_CONFIG,
+  downloadSceneConfig,
+  loadSceneConfigFile,
+  loadSceneConfigUrl,
+  withCameraPose,
+  type SceneConfig,
+} from '../utils/sceneConfig';
+import { createShareParams, createShareUrl, isShareableShape, readSharedScene } from '../utils/sceneUrl';
+import type { Preset, PresetScene } from '../utils/presets';
+import type * as THREE from 'three';
+
+// Pixel ratio range the Canvas normally renders at
+const CANVAS_DPR: [number, number] = [1, 2];
 
 const Index = () => {
   const [isTransformed, setIsTransformed] = useState(false);
   const [particleCount, setParticleCount] = useState(0);
   const [transformProgress, setTransformProgress] = useState(0);
   const [showStats, setShowStats] = useState(false);
+  const [showChoreography, setShowChoreography] = useState(false);
   const [isAnimating, setIsAnimating] = useState(false);
+  const [isFlying, setIsFlying] = useState(false);
+  const [followCamera, setFollowCamera] = useState(false);
+  const [currentShapeId, setCurrentShapeId] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const configInputRef = useRef<HTMLInputElement>(null);
+  const cameraRef = useRef<THREE.Camera | null>(null);
+  const [message, setMessage] = useState('');
+  const [messageFont, setMessageFont] = useState(TEXT_FONTS[0].id);
   const canvasRef = useRef<HTMLDivElement>(null);
-  const particleSystemRef = useRef<any>(null);
+  const particleSystemRef = useRef<ParticleSystemHandle>(null);
+  const recorderRef = useRef<CanvasRecorderHandle>(null);
+  const snapshotRef = useRef<CanvasSnapshotHandle>(null);
+  const [uiHidden, setUiHidden] = useState(false);
+  // Raised pixel ratios for a recording or snapshot in progress; the Canvas prop keeps them through re-renders
+  const [recordingDpr, setRecordingDpr] = useState<number | null>(null);
+  const [snapshotDpr, setSnapshotDpr] = useState<number | null>(null);
+  const morphingToShapeRef = useRef(false);
+  const [searchParams, setSearchParams] = useSearchParams();
+  // A shared link restores its scene on first render, before the particles are built
+  const [sharedScene] = useState(() => readSharedScene(searchParams));
+  const [sceneConfig, setSceneConfig] = useState<SceneConfig>(sharedScene.config ?? DEFAULT_SCENE_CONFIG);
+  const urlSeed = parseSeed(searchParams.get('seed'));
+  const [fallbackSeed] = useState(randomSeed);
+  const seed = urlSeed ?? fallbackSeed;
+
+  // Keep the seed in the URL so the scene can be reproduced
+  useEffect(() => {
+    if (urlSeed !== null) return;
+    setSearchParams((params) => {
+      params.set('seed', String(fallbackSeed));
+      return params;
+    }, { replace: true });
+  }, [urlSeed, fallbackSeed, setSearchParams]);
+
+  useEffect(() => {
+    if (sharedScene.error) {
+      toast.error('Could not restore the shared scene', { description: sharedScene.error });
+    }
+  }, [sharedScene]);
+
+  // A config URL in the query string is loaded once on arrival
+  const configUrl = searchParams.get('config');
+  useEffect(() => {
+    if (!configUrl) return;
+    loadSceneConfigUrl(configUrl)
+      .then(setSceneConfig)
+      .catch((error) => toast.error(error instanceof Error ? error.message : 'Could not load scene config'));
+  }, [configUrl]);
 
   // Animate particle counter
+  const targetParticleCount = sceneConfig.particles.count;
   useEffect(() => {
-    gsap.to({ count: 0 }, {
-      count: 1500,
+    const tween = gsap.to({ count: 0 }, {
+      count: targetParticleCount,
       duration: 2,
       ease: "power2.out",
       onUpdate: function() {
         setParticleCount(Math.floor(this.targets()[0].count));
       }
     });
+    return () => {
+      tween.kill();
+    };
+  }, [targetParticleCount]);
+
+  const handleConfigImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setSceneConfig(await loadSceneConfigFile(file));
+      toast.success(`Loaded scene from "${file.name}"`);
+    } catch (error) {
+      toast.error(`"${file.name}" is not a valid scene config`, {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
   }, []);
 
+  const handleConfigUrl = useCallback(async () => {
+    const url = window.prompt('Scene config URL');
+    if (!url) return;
+
+    try {
+      setSceneConfig(await loadSceneConfigUrl(url));
+      toast.success('Loaded scene config');
+    } catch (error) {
+      toast.error('Could not load scene config', {
+        description: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }, []);
+
+  // Export includes wherever the camera has been orbited to
+  const handleConfigExport = useCallback(() => {
+    downloadSceneConfig(withCameraPose(sceneConfig, cameraRef.current));
+  }, [sceneConfig]);
+
+  // Put the whole scene in the address bar and on the clipboard
+  const handleShare = useCallback(async () => {
+    const shape = particleSystemRef.current?.getState().shapeId ?? null;
+    const scene = { seed, shape, config: withCameraPose(sceneConfig, cameraRef.current) };
+    setSearchParams(createShareParams(scene), { replace: true });
+
+    const description = shape !== null && !isShareableShape(shape)
+      ? 'Imported shapes stay on this device; the link opens as a particle cloud.'
+      : undefined;
+    try {
+      await navigator.clipboard.writeText(createShareUrl(scene));
+      toast.success('Link copied to clipboard', { description });
+    } catch {
+      toast.success('Link is ready in the address bar', { description });
+    }
+  }, [seed, sceneConfig, setSearchParams]);
+
+  const getCurrentScene = useCallback((): PresetScene => {
+    const shape = particleSystemRef.current?.getState().shapeId ?? null;
+    return {
+      seed,
+      shape,
+      text: shape === TEXT_SHAPE_ID ? getTextShapeSource() : null,
+      config: withCameraPose(sceneConfig, cameraRef.current),
+    };
+  }, [seed, sceneConfig]);
+
+  // Formation of the last applied preset, taken up once its seed and config have rebuilt the particles
+  const pendingPresetRef = useRef<Preset | null>(null);
+
+  const handleApplyPreset = useCallback((preset: Preset) => {
+    setIsFlying(false);
+    pendingPresetRef.current = preset;
+    // A fresh camera array moves the camera even when the preset's pose matches the last one applied
+    setSceneConfig({ ...preset.config, camera: { ...preset.config.camera, position: [...preset.config.camera.position] } });
+    setSearchParams((params) => {
+      params.set('seed', String(preset.seed));
+      return params;
+    }, { replace: true });
+  }, [setSearchParams]);
+
+  // Runs after the particle system's own rebuild, so the morph lands on the particles the preset describes
+  useEffect(() => {
+    const preset = pendingPresetRef.current;
+    const particles = particleSystemRef.current;
+    if (!preset || !particles) return;
+    pendingPresetRef.current = null;
+
+    try {
+      if (preset.text) registerTextShape(preset.text.text, { font: preset.text.font });
+      if (preset.shape !== null && hasShape(preset.shape)) {
+        particles.morph(preset.shape, preset.config.morph);
+      } else {
+        if (preset.shape !== null) toast.info(`"${preset.name}" used an imported shape that is not loaded`);
+        particles.reset();
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not apply "${preset.name}"`);
+    }
+  }, [seed, sceneConfig]);
+
   const handleTransform = useCallback(() => {
     if (isAnimating) return;
-    
-    setIsAnimating(true);
-    setTransformProgress(0);
-    
-    // Animate progress bar
-    gsap.to({ progress: 0 }, {
-      progress: 100,
-      duration: 2,
-      ease: "power2.out",
-      onUpdate: function() {
-        setTransformProgress(this.targets()[0].progress);
-      }
-    });
+    particleSystemRef.current?.morph('butterfly', sceneConfig.morph);
+  }, [isAnimating, sceneConfig.morph]);
 
-    // Trigger particle transformation
-    if (particleSystemRef.current) {
-      particleSystemRef.current.transformToButterly();
-    }
+  // Fixed-length recordings open on a transformation, whatever the particles were doing
+  const handleRecordingStart = useCallback(() => {
+    setIsFlying(false);
+    particleSystemRef.current?.morph('butterfly', sceneConfig.morph);
+  }, [sceneConfig.morph]);
 
-    setTimeout(() => {
-      setIsTransformed(true);
-      setIsAnimating(false);
-    }, 2000);
+  const handleReset = useCallback(() => {
+    if (isAnimating) return;
+    setIsFlying(false);
+    particleSystemRef.current?.reset();
   }, [isAnimating]);
 
-  const handleReset = useCallback(() => {
+  // Images and 3D models share one picker; the file name decides which importer runs
+  const handleImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const shape = modelFormatFromFileName(file.name)
+        ? await importModelShape(file)
+        : await importImageShape(file);
+      setIsFlying(false);
+      particleSystemRef.current?.morph(shape.id, sceneConfig.morph);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : `Could not import "${file.name}"`);
+    }
+  }, [sceneConfig.morph]);
+
+  const handleSpell = useCallback((event: React.FormEvent) => {
+    event.preventDefault();
     if (isAnimating) return;
-    
-    setIsAnimating(true);
-    setTransformProgress(0);
-    
-    if (particleSystemRef.current) {
-      particleSystemRef.current.resetParticles();
+
+    try {
+      const shape = registerTextShape(message, { font: messageFont });
+      setIsFlying(false);
+      particleSystemRef.current?.morph(shape.id, sceneConfig.morph);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Could not spell that text');
     }
+  }, [isAnimating, message, messageFont, sceneConfig.morph]);
 
-    setTimeout(() => {
-      setIsTransformed(false);
-      setIsAnimating(false);
-    }, 1000);
-  }, [isAnimating]);
+  const handleChoreographyPlaying = useCallback((playing: boolean) => {
+    if (playing) setIsFlying(false);
+  }, []);
+
+  const handleToggleFlight = useCallback(() => {
+    if (!isTransformed || isAnimating) return;
+    setIsFlying((flying) => !flying);
+  }, [isTransformed, isAnimating]);
+
+  // Progress tracks how far the particles are toward the formation, so a reset runs it back down
+  const handleMorphStart = useCallback((from: string | null, to: string | null) => {
+    morphingToShapeRef.current = to !== null;
+    setIsAnimating(true);
+  }, []);
+
+  const handleMorphProgress = useCallback((progress: number) => {
+    setTransformProgress((morphingToShapeRef.current ? progress : 1 - progress) * 100);
+  }, []);
+
+  const handleMorphComplete = useCallback((shapeId: string | null) => {
+    setCurrentShapeId(shapeId);
+    setIsTransformed(shapeId !== null);
+    setTransformProgress(shapeId !== null ? 100 : 0);
+    setIsAnimating(false);
+  }, []);
 
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyPress = (event: KeyboardEvent) => {
+      // Leave typing in text fields alone
+      if (event.target instanceof HTMLInputElement || event.target instanceof HTMLTextAreaElement) return;
+
       if (event.code === 'Space') {
         event.preventDefault();
         if (!isTransformed) handleTransform();
       } else if (event.key.toLowerCase() === 'r') {
         handleReset();
+      } else if (event.key.toLowerCase() === 'f') {
+        handleToggleFlight();
+      } else if (event.key.toLowerCase() === 'h') {
+        setUiHidden((hidden) => !hidden);
+      } else if (event.key === 'Escape') {
+        setUiHidden(false);
       }
     };
 
     window.addEventListener('keydown', handleKeyPress);
     return () => window.removeEventListener('keydown', handleKeyPress);
-  }, [isTransformed, handleTransform, handleReset]);
+  }, [isTransformed, handleTransform, handleReset, handleToggleFlight]);
+
+  // A click or tap sends a shockwave through the particles; drags that orbit the camera do not
+  const pointerDownRef = useRef<{ x: number; y: number } | null>(null);
+
+  const handleCanvasPointerDown = useCallback((event: React.PointerEvent) => {
+    pointerDownRef.current = { x: event.clientX, y: event.clientY };
+  }, []);
 
-  // Click ripple effect
-  const createRipple = useCallback((event: React.MouseEvent) => {
+  const handleCanvasPointerUp = useCallback((event: React.PointerEvent) => {
+    const down = pointerDownRef.current;
+    pointerDownRef.current = null;
     const rect = canvasRef.current?.getBoundingClientRect();
-    if (!rect) return;
-
-    const x = event.clientX - rect.left;
-    const y = event.clientY - rect.top;
-
-    const ripple = document.createElement('div');
-    ripple.className = 'absolute pointer-events-none rounded-full border-2 border-gold-400 opacity-70';
-    ripple.style.left = `${x}px`;
-    ripple.style.top = `${y}px`;
-    ripple.style.width = '0px';
-    ripple.style.height = '0px';
-    ripple.style.transform = 'translate(-50%, -50%)';
-
-    canvasRef.current?.appendChild(ripple);
-
-    gsap.to(ripple, {
-      width: '200px',
-      height: '200px',
-      opacity: 0,
-      duration: 0.8,
-      ease: "power2.out",
-      onComplete: () => ripple.remove()
+    if (!down || !rect || Math.hypot(event.clientX - down.x, event.clientY - down.y) > 6) return;
+
+    particleSystemRef.current?.shockwave({
+      pointer: {
+        x: ((event.clientX - rect.left) / rect.width) * 2 - 1,
+        y: -((event.clientY - rect.top) / rect.height) * 2 + 1,
+      },
     });
   }, []);
 
@@ -123,6 +339,8 @@ const Index = () => {
         <div className="absolute inset-0 bg-gradient-radial from-gold-500/10 via-transparent to-transparent"></div>
       </div>
 
+      {/* Overlays are hidden rather than unmounted so panels keep their state */}
+      <div className={uiHidden ? 'hidden' : undefined}>
       {/* Header */}
       <div className="absolute top-6 left-6 z-10">
         <h1 className="text-4xl font-bold bg-gradient-to-r from-gold-400 via-amber-400 to-gold-600 bg-clip-text text-transparent animate-pulse">
@@ -131,9 +349,17 @@ const Index = () => {
         <p className="text-slate-300 mt-2">3D Physics Playground</p>
       </div>
 
+      {/* Choreography */}
+      {showChoreography && (
+        <div className="absolute top-32 left-6 z-10">
+          <ChoreographyPanel controllerRef={particleSystemRef} onPlayingChange={handleChoreographyPlaying} />
+        </div>
+      )}
+
+      <div className="absolute top-6 right-6 z-10 flex flex-col items-end gap-4">
       {/* Stats Panel */}
       {showStats && (
-        <Card className="absolute top-6 right-6 z-10 p-4 bg-black/20 backdrop-blur-md border-gold-500/30">
+        <Card className="p-4 bg-black/20 backdrop-blur-md border-gold-500/30">
           <div className="space-y-3 min-w-[200px]">
             <div className="flex justify-between items-center">
               <span className="text-slate-300">Particles:</span>
@@ -151,14 +377,18 @@ const Index = () => {
             <div className="flex justify-between items-center">
               <span className="text-slate-300">Status:</span>
               <Badge variant={isTransformed ? "default" : "outline"} 
-                     className={isTransformed ? "bg-emerald-500/20 text-emerald-400" : "text-slate-400"}>
-                {isTransformed ? "Butterfly" : "Particles"}
+                     className={isAnimating ? "text-gold-400" : isTransformed ? "bg-emerald-500/20 text-emerald-400" : "text-slate-400"}>
+                {isAnimating ? "Morphing" : isTransformed ? (currentShapeId && getShape(currentShapeId)?.label) || "Shape" : "Particles"}
               </Badge>
             </div>
           </div>
         </Card>
       )}
 
+      {/* Settings */}
+      <SettingsPanel config={sceneConfig} onChange={setSceneConfig} />
+      </div>
+
       {/* Controls */}
       <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 z-10">
         <div className="flex gap-4 items-center">
@@ -169,6 +399,34 @@ const Index = () => {
           >
             {isAnimating ? 'Transforming...' : 'Transform'} ✨
           </Button>
+
+          <form onSubmit={handleSpell} className="flex gap-2 items-center">
+            <Input
+              value={message}
+              onChange={(event) => setMessage(event.target.value)}
+              placeholder="Type a message"
+              maxLength={24}
+              className="w-40 rounded-full bg-black/30 border-gold-500/30 text-slate-200"
+            />
+            <Select value={messageFont} onValueChange={setMessageFont}>
+              <SelectTrigger className="w-24 rounded-full bg-black/30 border-gold-500/30 text-slate-200">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {TEXT_FONTS.map((font) => (
+                  <SelectItem key={font.id} value={font.id}>{font.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button
+              type="submit"
+              disabled={!message.trim() || isAnimating}
+              variant="outline"
+              className="border-gold-500/50 text-gold-400 hover:bg-gold-500/10 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
+            >
+              Spell 🔤
+            </Button>
+          </form>
           
           <Button
             onClick={handleReset}
@@ -186,6 +444,79 @@ const Index = () => {
           >
             Stats 📊
           </Button>
+
+          <Button
+            onClick={() => setShowChoreography(!showChoreography)}
+            variant="ghost"
+            className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+          >
+            Show 🎬
+          </Button>
+
+          <PresetDrawer getCurrentScene={getCurrentScene} onApply={handleApplyPreset} />
+
+          <RecordControls recorderRef={recorderRef} onAutoStart={handleRecordingStart} />
+
+          <SnapshotControls snapshotRef={snapshotRef} onHideUi={() => setUiHidden(true)} />
+
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button
+                variant="ghost"
+                className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+              >
+                Scene ⚙️
+              </Button>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent>
+              <DropdownMenuItem onSelect={() => configInputRef.current?.click()}>Import config…</DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleConfigUrl}>Load config from URL…</DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleConfigExport}>Export config</DropdownMenuItem>
+              <DropdownMenuItem onSelect={handleShare}>Copy share link 🔗</DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          <input
+            ref={configInputRef}
+            type="file"
+            accept="application/json,.json"
+            className="hidden"
+            onChange={handleConfigImport}
+          />
+
+          <Button
+            onClick={() => importInputRef.current?.click()}
+            disabled={isAnimating}
+            variant="ghost"
+            className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+          >
+            Import 🖼️
+          </Button>
+          <input
+            ref={importInputRef}
+            type="file"
+            accept={[...IMAGE_FILE_TYPES, ...MODEL_FILE_EXTENSIONS].join(',')}
+            className="hidden"
+            onChange={handleImport}
+          />
+
+          <Button
+            onClick={handleToggleFlight}
+            disabled={!isTransformed || isAnimating}
+            variant="outline"
+            className="border-gold-500/50 text-gold-400 hover:bg-gold-500/10 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:hover:scale-100"
+          >
+            {isFlying ? 'Land' : 'Fly'} 🦋
+          </Button>
+
+          {isFlying && (
+            <Button
+              onClick={() => setFollowCamera(!followCamera)}
+              variant="ghost"
+              className="text-slate-300 hover:text-gold-400 px-6 py-3 rounded-full transition-all duration-300 transform hover:scale-105"
+            >
+              {followCamera ? 'Free camera' : 'Follow'} 🎥
+            </Button>
+          )}
         </div>
       </div>
 
@@ -193,60 +524,84 @@ const Index = () => {
       <div className="absolute bottom-6 right-6 z-10 text-right">
         <p className="text-slate-400 text-sm">Press <kbd className="px-2 py-1 bg-slate-700 rounded">Space</kbd> to transform</p>
         <p className="text-slate-400 text-sm">Press <kbd className="px-2 py-1 bg-slate-700 rounded">R</kbd> to reset</p>
+        <p className="text-slate-400 text-sm">Press <kbd className="px-2 py-1 bg-slate-700 rounded">F</kbd> to fly</p>
+        <p className="text-slate-400 text-sm">Press <kbd className="px-2 py-1 bg-slate-700 rounded">H</kbd> to hide the interface</p>
+      </div>
+
       </div>
 
       {/* 3D Canvas */}
       <div 
         ref={canvasRef}
         className="absolute inset-0 cursor-crosshair"
-        onClick={createRipple}
+        onPointerDown={handleCanvasPointerDown}
+        onPointerUp={handleCanvasPointerUp}
       >
         <Canvas
-          camera={{ position: [0, 0, 10], fov: 60 }}
-          dpr={[1, 2]}
+          camera={{ position: sceneConfig.camera.position, fov: sceneConfig.camera.fov }}
+          dpr={snapshotDpr ?? recordingDpr ?? CANVAS_DPR}
           performance={{ min: 0.5 }}
+          onCreated={({ camera }) => {
+            cameraRef.current = camera;
+          }}
         >
-          <color attach="background" args={['#0a0a0a']} />
+          <color attach="background" args={[sceneConfig.background]} />
+          <SceneCamera position={sceneConfig.camera.position} fov={sceneConfig.camera.fov} />
+          <CanvasRecorder ref={recorderRef} onDprChange={setRecordingDpr} />
+          <CanvasSnapshot ref={snapshotRef} onDprChange={setSnapshotDpr} />
           
           {/* Lighting */}
-          <ambientLight intensity={0.3} />
-          <pointLight position={[10, 10, 10]} intensity={1} color="#ffd700" />
-          <pointLight position={[-10, -10, 10]} intensity={0.5} color="#dc143c" />
+          <ambientLight intensity={sceneConfig.lights.ambient.intensity} color={sceneConfig.lights.ambient.color} />
+          {sceneConfig.lights.points.map((light, index) => (
+            <pointLight key={index} position={light.position} intensity={light.intensity} color={light.color} />
+          ))}
           <spotLight
-            position={[0, 10, 0]}
-            angle={0.3}
-            penumbra={0.5}
-            intensity={0.5}
-            color="#ffd700"
+            position={sceneConfig.lights.spot.position}
+            angle={sceneConfig.lights.spot.angle}
+            penumbra={sceneConfig.lights.spot.penumbra}
+            intensity={sceneConfig.lights.spot.intensity}
+            color={sceneConfig.lights.spot.color}
           />
           
           {/* Background stars */}
           <Stars
-            radius={300}
-            depth={60}
-            count={2000}
-            factor={7}
-            saturation={0}
-            fade
+            radius={sceneConfig.stars.radius}
+            depth={sceneConfig.stars.depth}
+            count={sceneConfig.stars.count}
+            factor={sceneConfig.stars.factor}
+            saturation={sceneConfig.stars.saturation}
+            fade={sceneConfig.stars.fade}
           />
           
           {/* Particle System */}
-          <ParticleSystem
-            ref={particleSystemRef}
-            isTransformed={isTransformed}
-            particleCount={1500}
-          />
+          <FlightRig enabled={isFlying} seed={seed} followCamera={followCamera}>
+            <ParticleSystem
+              ref={particleSystemRef}
+              particleCount={sceneConfig.particles.count}
+              seed={seed}
+              settings={sceneConfig.particles}
+              blending={sceneConfig.particles.blending}
+              palette={sceneConfig.particles.palette}
+              initialShape={sharedScene.shape}
+              flap={sceneConfig.flap}
+              physics={sceneConfig.physics}
+              onMorphStart={handleMorphStart}
+              onMorphProgress={handleMorphProgress}
+              onMorphComplete={handleMorphComplete}
+            />
+          </FlightRig>
           
           {/* Camera controls */}
           <OrbitControls
-            enablePan={false}
-            enableZoom={true}
-            enableRotate={true}
-            autoRotate={!isTransformed}
-            autoRotateSpeed={0.5}
-            minDistance={5}
-            maxDistance={20}
-            maxPolarAngle={Math.PI / 1.5}
+            enabled={!(isFlying && followCamera)}
+            enablePan={sceneConfig.controls.enablePan}
+            enableZoom={sceneConfig.controls.enableZoom}
+            enableRotate={sceneConfig.controls.enableRotate}
+            autoRotate={sceneConfig.controls.autoRotate && !isTransformed}
+            autoRotateSpeed={sceneConfig.controls.autoRotateSpeed}
+            minDistance={sceneConfig.controls.minDistance}
+            maxDistance={sceneConfig.controls.maxDistance}
+            maxPolarAngle={sceneConfig.controls.maxPolarAngle}
           />
         </Canvas>
       </div>
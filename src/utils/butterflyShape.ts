@@ -1,108 +1,118 @@
-
 import * as THREE from 'three';
+import type { ShapeDefinition, ShapeSample } from './shapeRegistry';
+import { createRandom, type RandomFn } from './random';
+
+// Share of particles given to each part of the butterfly
+const BODY_RATIO = 0.15;
+const SPOT_RATIO = 0.05;
+
+// Monarch palette
+export const MONARCH_COLORS = {
+  orange: new THREE.Color(0.93, 0.42, 0.04),
+  deepOrange: new THREE.Color(0.8, 0.3, 0.02),
+  black: new THREE.Color(0.03, 0.02, 0.02),
+  white: new THREE.Color(0.95, 0.93, 0.88),
+  body: new THREE.Color(0.08, 0.06, 0.05),
+};
+
+// Radial veins per wing and the width of the black margin, as a fraction of the wing radius
+const VEINS = { upper: 7, lower: 6 };
+const MARGIN = 0.86;
+const VEIN_WIDTH = 0.07;
+
+type WingPart = 'upper' | 'lower';
 
-// Generate butterfly shape coordinates
-export const butterflyShape: THREE.Vector3[] = [];
+// Wing outlines in polar form around the wing root
+const wingRadius = (part: WingPart, t: number) =>
+  part === 'upper' ? 2 + Math.sin(t * 2) * 0.5 : 1.2 + Math.sin(t * 3) * 0.3;
 
-const generateButterflyShape = () => {
+const wingSweep = (part: WingPart) => (part === 'upper' ? Math.PI : Math.PI * 0.7);
+
+const wingPosition = (part: WingPart, side: -1 | 1, t: number, r: number, z: number) =>
+  part === 'upper'
+    ? new THREE.Vector3(side * r * Math.sin(t), r * Math.cos(t) * 0.8 + 0.5, z)
+    : new THREE.Vector3(side * r * Math.sin(t), -r * Math.cos(t) * 0.6 - 0.3, z);
+
+// Colour for a point at angle t and relative radius s (0 at the root, 1 at the edge)
+const wingColor = (part: WingPart, t: number, s: number) => {
+  if (s > MARGIN) return MONARCH_COLORS.black;
+
+  // Black veins radiate from the root and thicken towards it
+  const veinPhase = (t / wingSweep(part)) * VEINS[part];
+  const veinDistance = Math.abs(veinPhase - Math.round(veinPhase));
+  if (veinDistance < VEIN_WIDTH * (1.4 - s) || s < 0.12) return MONARCH_COLORS.black;
+
+  // Dark forewing tip on the upper wing
+  if (part === 'upper' && t < 0.55 && s > 0.6) return MONARCH_COLORS.black;
+
+  return s > 0.55 ? MONARCH_COLORS.orange : MONARCH_COLORS.deepOrange;
+};
+
+const wingPoint = (part: WingPart, side: -1 | 1, random: RandomFn) => {
+  const t = random() * wingSweep(part);
+  // sqrt spreads points evenly over the wing area rather than bunching at the root
+  const s = Math.sqrt(random());
+  const r = wingRadius(part, t) * s;
+  return {
+    point: wingPosition(part, side, t, r, random() * 0.1 - 0.05),
+    color: wingColor(part, t, s),
+  };
+};
+
+// White spots sit in a row along the black margin
+const marginSpot = (part: WingPart, side: -1 | 1, random: RandomFn) => {
+  const spots = VEINS[part] * 2;
+  const spot = Math.floor(random() * spots);
+  const t = ((spot + 0.5 + (random() - 0.5) * 0.35) / spots) * wingSweep(part);
+  const s = MARGIN + (1 - MARGIN) * (0.5 + (random() - 0.5) * 0.5);
+  const r = wingRadius(part, t) * s;
+  return wingPosition(part, side, t, r, 0.02 + (random() - 0.5) * 0.02);
+};
+
+// Generate butterfly shape coordinates and colours, split proportionally across body, wings and spots
+export const generateButterflyShape = (count: number, seed: number): ShapeSample => {
+  const random = createRandom(seed);
   const points: THREE.Vector3[] = [];
-  
-  // Butterfly body (15% of particles - about 225 particles)
-  for (let i = 0; i < 225; i++) {
-    const t = (i / 225) * 2 - 1; // -1 to 1
+  const colors: THREE.Color[] = [];
+
+  const bodyCount = Math.round(count * BODY_RATIO);
+  const spotCount = Math.round(count * SPOT_RATIO);
+  const wingCount = count - bodyCount - spotCount;
+
+  // Butterfly body, with the faint white speckles of a monarch thorax
+  for (let i = 0; i < bodyCount; i++) {
+    const t = (i / bodyCount) * 2 - 1; // -1 to 1
     const x = 0;
     const y = t * 2.5; // Length of body
     const z = Math.sin(t * Math.PI) * 0.1; // Slight curve
     points.push(new THREE.Vector3(x, y, z));
+    colors.push(random() < 0.08 ? MONARCH_COLORS.white : MONARCH_COLORS.body);
   }
-  
-  // Left wing (42.5% of particles - about 638 particles)
-  for (let i = 0; i < 638; i++) {
-    const u = Math.random();
-    const v = Math.random();
-    
-    // Upper wing
-    if (v > 0.5) {
-      const t = u * Math.PI;
-      const r = 2 + Math.sin(t * 2) * 0.5;
-      const x = -r * Math.sin(t);
-      const y = r * Math.cos(t) * 0.8 + 0.5;
-      const z = Math.random() * 0.1 - 0.05;
-      
-      points.push(new THREE.Vector3(x, y, z));
-    } else {
-      // Lower wing
-      const t = u * Math.PI * 0.7;
-      const r = 1.2 + Math.sin(t * 3) * 0.3;
-      const x = -r * Math.sin(t);
-      const y = -r * Math.cos(t) * 0.6 - 0.3;
-      const z = Math.random() * 0.1 - 0.05;
-      
-      points.push(new THREE.Vector3(x, y, z));
-    }
+
+  // Wings alternate sides so both halves stay balanced for any count
+  for (let i = 0; i < wingCount; i++) {
+    const side = i % 2 === 0 ? -1 : 1;
+    const part = random() > 0.5 ? 'upper' : 'lower';
+    const { point, color } = wingPoint(part, side, random);
+    points.push(point);
+    colors.push(color);
   }
-  
-  // Right wing (42.5% of particles - about 637 particles)
-  for (let i = 0; i < 637; i++) {
-    const u = Math.random();
-    const v = Math.random();
-    
-    // Upper wing
-    if (v > 0.5) {
-      const t = u * Math.PI;
-      const r = 2 + Math.sin(t * 2) * 0.5;
-      const x = r * Math.sin(t);
-      const y = r * Math.cos(t) * 0.8 + 0.5;
-      const z = Math.random() * 0.1 - 0.05;
-      
-      points.push(new THREE.Vector3(x, y, z));
-    } else {
-      // Lower wing
-      const t = u * Math.PI * 0.7;
-      const r = 1.2 + Math.sin(t * 3) * 0.3;
-      const x = r * Math.sin(t);
-      const y = -r * Math.cos(t) * 0.6 - 0.3;
-      const z = Math.random() * 0.1 - 0.05;
-      
-      points.push(new THREE.Vector3(x, y, z));
-    }
+
+  for (let i = 0; i < spotCount; i++) {
+    const side = i % 2 === 0 ? -1 : 1;
+    const part = random() > 0.5 ? 'upper' : 'lower';
+    points.push(marginSpot(part, side, random));
+    colors.push(MONARCH_COLORS.white);
   }
-  
-  // Add polka dots pattern (black spots on wings)
-  const dotPositions = [
-    // Left wing dots
-    new THREE.Vector3(-1.5, 1.2, 0.02),
-    new THREE.Vector3(-0.8, 0.8, 0.02),
-    new THREE.Vector3(-1.2, 0.4, 0.02),
-    new THREE.Vector3(-0.6, -0.2, 0.02),
-    new THREE.Vector3(-0.9, -0.8, 0.02),
-    
-    // Right wing dots
-    new THREE.Vector3(1.5, 1.2, 0.02),
-    new THREE.Vector3(0.8, 0.8, 0.02),
-    new THREE.Vector3(1.2, 0.4, 0.02),
-    new THREE.Vector3(0.6, -0.2, 0.02),
-    new THREE.Vector3(0.9, -0.8, 0.02),
-  ];
-  
-  // Add small clusters around each dot position
-  dotPositions.forEach(dotPos => {
-    for (let i = 0; i < 8; i++) {
-      const offset = new THREE.Vector3(
-        (Math.random() - 0.5) * 0.2,
-        (Math.random() - 0.5) * 0.2,
-        (Math.random() - 0.5) * 0.05
-      );
-      if (points.length < 1500) {
-        points.push(dotPos.clone().add(offset));
-      }
-    }
-  });
-  
-  return points;
+
+  return { points, colors };
 };
 
-// Generate the butterfly shape
-butterflyShape.push(...generateButterflyShape());
+export const butterflyShape: ShapeDefinition = {
+  id: 'butterfly',
+  label: 'Butterfly',
+  generate: generateButterflyShape,
+  flap: true,
+};
 
 export default butterflyShape;
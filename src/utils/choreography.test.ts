@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CHOREOGRAPHY, parseChoreography } from './choreography';
+
+describe('parseChoreography', () => {
+  it('accepts the default choreography', () => {
+    expect(parseChoreography(JSON.stringify(DEFAULT_CHOREOGRAPHY))).toEqual(DEFAULT_CHOREOGRAPHY);
+  });
+
+  it('rejects shapes that are not registered', () => {
+    const json = JSON.stringify({ steps: [{ type: 'shape', shape: 'moth', duration: 2 }] });
+    expect(() => parseChoreography(json)).toThrow(/steps\.0\.shape: Unknown shape "moth"/);
+  });
+
+  it('rejects eases GSAP cannot parse', () => {
+    const json = JSON.stringify({ steps: [{ type: 'cloud', duration: 2, ease: 'bouncy' }] });
+    expect(() => parseChoreography(json)).toThrow('steps.0.ease: Unknown ease "bouncy"');
+  });
+});
@@ -0,0 +1,223 @@
+import gsap from 'gsap';
+import { z } from 'zod';
+import type { ParticleSystemHandle } from '../components/ParticleSystem';
+import { hasShape, listShapes } from './shapes';
+import { registerTextShape } from './textShape';
+import { easeSchema } from './sceneConfig';
+import { formatIssues, parseJson } from './validation';
+
+// How a step's morph spreads across the particles
+export const TRANSITION_STAGGER = {
+  smooth: 0.2,
+  ripple: 0.6,
+  unison: 0,
+};
+
+const transitionSchema = z.enum(['smooth', 'ripple', 'unison']);
+
+const stepBase = {
+  // Seconds before the next step starts
+  duration: z.number().positive(),
+  // Seconds the morph itself takes; defaults to the whole step, capped at 2s
+  morph: z.number().positive().optional(),
+  ease: easeSchema.optional(),
+  transition: transitionSchema.optional(),
+};
+
+// Checked when the choreography is parsed, so shapes imported since then are accepted too
+const shapeIdSchema = z.string().min(1).refine(hasShape, (id) => ({
+  message: `Unknown shape "${id}"; available: ${listShapes().map((shape) => shape.id).join(', ')}`,
+}));
+
+export const choreographyStepSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('cloud'), ...stepBase }),
+  z.object({ type: z.literal('shape'), shape: shapeIdSchema, ...stepBase }),
+  z.object({ type: z.literal('text'), text: z.string().min(1), font: z.string().optional(), ...stepBase }),
+  z.object({ type: z.literal('flap'), duration: z.number().positive() }),
+  z.object({ type: z.literal('hold'), duration: z.number().positive() }),
+  z.object({ type: z.literal('explode'), strength: z.number().positive().optional(), ...stepBase }),
+]);
+
+export const choreographySchema = z.object({
+  name: z.string().optional(),
+  loop: z.boolean().optional(),
+  steps: z.array(choreographyStepSchema).min(1),
+});
+
+export type ChoreographyStep = z.infer<typeof choreographyStepSchema>;
+export type Choreography = z.infer<typeof choreographySchema>;
+
+export const DEFAULT_CHOREOGRAPHY: Choreography = {
+  name: 'Metamorphosis',
+  loop: true,
+  steps: [
+    { type: 'cloud', duration: 2 },
+    { type: 'shape', shape: 'butterfly', duration: 3, ease: 'power2.out' },
+    { type: 'flap', duration: 5 },
+    { type: 'shape', shape: 'spiral', duration: 4, transition: 'ripple', ease: 'sine.inOut' },
+    { type: 'text', text: 'Hello', duration: 4 },
+    { type: 'explode', duration: 2, strength: 8 },
+    { type: 'cloud', duration: 3, ease: 'power3.inOut' },
+  ],
+};
+
+// Parse JSON text into a choreography, with readable messages for every problem found
+export const parseChoreography = (json: string): Choreography => {
+  const result = choreographySchema.safeParse(parseJson(json));
+  if (!result.success) {
+    throw new Error(formatIssues(result.error, 'choreography'));
+  }
+  return result.data;
+};
+
+export const describeStep = (step: ChoreographyStep) => {
+  switch (step.type) {
+    case 'shape':
+      return `Morph to ${step.shape}`;
+    case 'text':
+      return `Spell "${step.text}"`;
+    case 'cloud':
+      return 'Scatter to cloud';
+    case 'flap':
+      return 'Flap';
+    case 'hold':
+      return 'Hold';
+    case 'explode':
+      return 'Explode';
+  }
+};
+
+export type ChoreographyController = Pick<
+  ParticleSystemHandle,
+  'morph' | 'reset' | 'burst' | 'startFlap' | 'stopFlap' | 'pause' | 'resume'
+>;
+
+export interface ChoreographyPlayerOptions {
+  onStep?: (index: number, step: ChoreographyStep) => void;
+  // A step that throws is reported here and skipped; the show carries on with the next one on schedule
+  onStepError?: (index: number, step: ChoreographyStep, error: Error) => void;
+  onFinish?: () => void;
+}
+
+export interface ChoreographyPlayer {
+  play: () => void;
+  pause: () => void;
+  resume: () => void;
+  skip: () => void;
+  stop: () => void;
+  setLoop: (loop: boolean) => void;
+  isPlaying: () => boolean;
+  isPaused: () => boolean;
+  currentStep: () => number;
+}
+
+// Plays steps one after another, each for its duration, driving the particle system through its handle
+export const createChoreographyPlayer = (
+  getController: () => ChoreographyController | null,
+  choreography: Choreography,
+  { onStep, onStepError, onFinish }: ChoreographyPlayerOptions = {}
+): ChoreographyPlayer => {
+  let index = -1;
+  let loop = choreography.loop ?? false;
+  let paused = false;
+  let timer: gsap.core.Tween | null = null;
+
+  const runStep = (step: ChoreographyStep) => {
+    const controller = getController();
+    if (!controller) return;
+
+    if (step.type === 'flap') {
+      controller.startFlap();
+      return;
+    }
+    if (step.type === 'hold') return;
+
+    const transition = {
+      duration: step.morph ?? Math.min(step.duration, 2),
+      ease: step.ease,
+      stagger: TRANSITION_STAGGER[step.transition ?? 'smooth'],
+    };
+
+    switch (step.type) {
+      case 'cloud':
+        controller.reset(transition);
+        break;
+      case 'shape':
+        controller.morph(step.shape, transition);
+        break;
+      case 'text':
+        controller.morph(registerTextShape(step.text, { font: step.font }).id, transition);
+        break;
+      case 'explode':
+        controller.burst({ ...transition, strength: step.strength });
+        break;
+    }
+  };
+
+  const advance = () => {
+    timer?.kill();
+    index += 1;
+
+    if (index >= choreography.steps.length) {
+      if (!loop) {
+        index = -1;
+        timer = null;
+        onFinish?.();
+        return;
+      }
+      index = 0;
+    }
+
+    const step = choreography.steps[index];
+    try {
+      runStep(step);
+    } catch (error) {
+      // A step that cannot run (e.g. a shape unregistered since loading) is skipped rather than stalling the show
+      onStepError?.(index, step, error instanceof Error ? error : new Error(String(error)));
+    }
+    onStep?.(index, step);
+    timer = gsap.delayedCall(step.duration, advance);
+  };
+
+  const stop = () => {
+    timer?.kill();
+    timer = null;
+    index = -1;
+    if (paused) getController()?.resume();
+    paused = false;
+  };
+
+  return {
+    play: () => {
+      stop();
+      advance();
+    },
+    pause: () => {
+      if (!timer || paused) return;
+      paused = true;
+      timer.pause();
+      getController()?.pause();
+    },
+    resume: () => {
+      if (!timer || !paused) return;
+      paused = false;
+      timer.resume();
+      getController()?.resume();
+    },
+    skip: () => {
+      if (index < 0) return;
+      if (paused) {
+        paused = false;
+        getController()?.resume();
+      }
+      advance();
+    },
+    stop,
+    setLoop: (value: boolean) => {
+      loop = value;
+    },
+    isPlaying: () => index >= 0,
+    isPaused: () => paused,
+    currentStep: () => index,
+  };
+};
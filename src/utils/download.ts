@@ -0,0 +1,14 @@
+// Save a blob through a temporary link
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoke on the next tick; some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Timestamped name like particle-monarch-2024-05-01T12-30-00.webm
+export const timestampedFileName = (extension: string, prefix = 'particle-monarch') =>
+  `${prefix}-${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.${extension}`;
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { FIXED_STEP, MAX_STEPS_PER_FRAME, createFixedStepLoop } from './fixedStep';
+
+// Run frames of the given length through a fresh loop, returning how many steps ran and the last alpha
+const run = (deltas: number[]) => {
+  const loop = createFixedStepLoop();
+  let steps = 0;
+  let alpha = 0;
+  deltas.forEach((delta) => {
+    alpha = loop.advance(delta, (dt) => {
+      expect(dt).toBe(FIXED_STEP);
+      steps++;
+    });
+  });
+  return { steps, alpha };
+};
+
+const frames = (hz: number, seconds: number) => Array.from({ length: Math.round(hz * seconds) }, () => 1 / hz);
+
+describe('fixed step loop', () => {
+  it('runs the same number of steps at 60 Hz and 144 Hz over the same time', () => {
+    // A hair over two seconds keeps float rounding from landing either side of a step boundary
+    const at60 = run([...frames(60, 2), 1e-4]);
+    const at144 = run([...frames(144, 2), 1e-4]);
+
+    expect(at60.steps).toBe(120);
+    expect(at144.steps).toBe(120);
+  });
+
+  it('gives up catching up after a stall', () => {
+    const loop = createFixedStepLoop();
+    let steps = 0;
+    const alpha = loop.advance(2, () => steps++);
+
+    expect(steps).toBe(MAX_STEPS_PER_FRAME);
+    // The time it could not simulate is dropped down to one step, which runs with the next frame's own
+    expect(alpha).toBe(1);
+
+    steps = 0;
+    loop.advance(FIXED_STEP, () => steps++);
+    expect(steps).toBe(2);
+  });
+
+  it('returns how far the frame sits into the next step', () => {
+    expect(run([FIXED_STEP * 0.25]).alpha).toBeCloseTo(0.25);
+    expect(run([FIXED_STEP * 1.5])).toEqual({ steps: 1, alpha: expect.closeTo(0.5) });
+    expect(run([FIXED_STEP * 0.4, FIXED_STEP * 0.4]).alpha).toBeCloseTo(0.8);
+  });
+
+  it('ignores negative deltas and starts over on reset', () => {
+    const loop = createFixedStepLoop();
+    expect(loop.advance(-1, () => {})).toBe(0);
+
+    loop.advance(FIXED_STEP * 0.5, () => {});
+    loop.reset();
+    expect(loop.advance(0, () => {})).toBe(0);
+  });
+});
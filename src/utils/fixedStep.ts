@@ -0,0 +1,33 @@
+// Simulation rate in steps per second; physics advances in whole steps of this size whatever the display does
+export const FIXED_STEP = 1 / 60;
+
+// Steps run in one frame before the simulation gives up catching up (after a stall or a hidden tab)
+export const MAX_STEPS_PER_FRAME = 8;
+
+export interface FixedStepLoop {
+  // Run as many whole steps as the elapsed time allows; returns how far (0 to 1) the frame sits into the next step
+  advance: (delta: number, step: (dt: number) => void) => number;
+  reset: () => void;
+}
+
+export const createFixedStepLoop = (dt = FIXED_STEP, maxSteps = MAX_STEPS_PER_FRAME): FixedStepLoop => {
+  let accumulator = 0;
+
+  return {
+    advance: (delta, step) => {
+      accumulator += Math.max(delta, 0);
+      let steps = 0;
+      while (accumulator >= dt && steps < maxSteps) {
+        step(dt);
+        accumulator -= dt;
+        steps++;
+      }
+      // Drop time that could not be simulated rather than spiralling further behind
+      if (steps === maxSteps) accumulator = Math.min(accumulator, dt);
+      return accumulator / dt;
+    },
+    reset: () => {
+      accumulator = 0;
+    },
+  };
+};
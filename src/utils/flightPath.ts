@@ -0,0 +1,96 @@
+import * as THREE from 'three';
+import { createRandom } from './random';
+
+export interface FlightSettings {
+  // Travel speed in world units per second
+  speed: number;
+  // How strongly the formation rolls into turns
+  bank: number;
+  // Upper limit for the roll angle in radians
+  maxBank: number;
+}
+
+export const FLIGHT_DEFAULTS: FlightSettings = {
+  speed: 2,
+  bank: 3,
+  maxBank: Math.PI / 4,
+};
+
+export interface FlightPose {
+  position: THREE.Vector3;
+  quaternion: THREE.Quaternion;
+  tangent: THREE.Vector3;
+}
+
+const WORLD_UP = new THREE.Vector3(0, 1, 0);
+
+// Closed loop wandering around the origin, reproducible from the scene seed
+export const createProceduralFlightPath = (seed: number, radius = 6, controlPoints = 8) => {
+  const random = createRandom(seed);
+  const points: THREE.Vector3[] = [];
+
+  for (let i = 0; i < controlPoints; i++) {
+    const angle = (i / controlPoints) * Math.PI * 2;
+    const r = radius * (0.6 + random() * 0.5);
+    points.push(new THREE.Vector3(
+      Math.cos(angle) * r,
+      (random() - 0.5) * radius * 0.5,
+      Math.sin(angle) * r
+    ));
+  }
+
+  return createFlightPath(points);
+};
+
+// Smooth closed spline through user supplied points
+export const createFlightPath = (points: THREE.Vector3[]) => {
+  if (points.length < 2) {
+    throw new Error('A flight path needs at least two points');
+  }
+  return new THREE.CatmullRomCurve3(points, true, 'centripetal');
+};
+
+export const createFlightPose = (): FlightPose => ({
+  position: new THREE.Vector3(),
+  quaternion: new THREE.Quaternion(),
+  tangent: new THREE.Vector3(0, 1, 0),
+});
+
+const nextTangent = new THREE.Vector3();
+const lean = new THREE.Vector3();
+const up = new THREE.Vector3();
+const side = new THREE.Vector3();
+const basis = new THREE.Matrix4();
+
+// Pose at path parameter u. The formation's body axis (+y) follows the tangent and
+// its wing normal (+z) points up, leaning towards the centre of the turn.
+export const sampleFlightPose = (
+  path: THREE.Curve<THREE.Vector3>,
+  u: number,
+  settings: FlightSettings,
+  out: FlightPose = createFlightPose()
+) => {
+  const t = ((u % 1) + 1) % 1;
+  const step = 0.01;
+
+  path.getPointAt(t, out.position);
+  path.getTangentAt(t, out.tangent).normalize();
+  path.getTangentAt((t + step) % 1, nextTangent).normalize();
+
+  up.copy(WORLD_UP).addScaledVector(out.tangent, -WORLD_UP.dot(out.tangent));
+  if (up.lengthSq() < 1e-6) up.set(0, 0, 1);
+  up.normalize();
+
+  // Horizontal curvature tips the wings into the turn, capped at maxBank
+  lean.subVectors(nextTangent, out.tangent).divideScalar(step * path.getLength());
+  lean.addScaledVector(up, -lean.dot(up)).addScaledVector(out.tangent, -lean.dot(out.tangent));
+  lean.multiplyScalar(settings.bank).clampLength(0, Math.tan(settings.maxBank));
+  up.add(lean).normalize();
+
+  side.crossVectors(out.tangent, up).normalize();
+  up.crossVectors(side, out.tangent);
+  basis.makeBasis(side, out.tangent, up);
+  out.quaternion.setFromRotationMatrix(basis);
+
+  return out;
+};
@@ -0,0 +1,184 @@
+import * as THREE from 'three';
+import { registerShape, type ShapeDefinition, type ShapeSample } from './shapeRegistry';
+import { createRandom } from './random';
+
+export type PixelSelection = 'auto' | 'opaque' | 'dark';
+
+export interface ImageShapeOptions {
+  // Which pixels become targets; auto picks opaque pixels when the image has transparency, dark ones otherwise
+  selection?: PixelSelection;
+  // Alpha (0-255) above which a pixel counts as opaque
+  alphaThreshold?: number;
+  // Luminance (0-1) below which a pixel counts as dark
+  darkThreshold?: number;
+  // Width of the formation in world units
+  size?: number;
+  // Depth of the slab the points are scattered through
+  depth?: number;
+}
+
+export const IMAGE_SHAPE_DEFAULTS: Required<ImageShapeOptions> = {
+  selection: 'auto',
+  alphaThreshold: 128,
+  darkThreshold: 0.5,
+  size: 6,
+  depth: 0.1,
+};
+
+// Longest side images are rasterised at before sampling
+const MAX_RASTER_SIZE = 256;
+
+export const IMAGE_FILE_TYPES = ['image/png', 'image/jpeg', 'image/svg+xml'];
+
+export interface PixelSamples {
+  width: number;
+  height: number;
+  // Pixel coordinates of every selected pixel, as x, y pairs
+  pixels: Uint32Array;
+  // Normalised sRGB colour of every selected pixel
+  colors: Float32Array;
+}
+
+const luminance = (r: number, g: number, b: number) => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+// Pick the pixels that should become particles
+export const selectPixels = (image: ImageData, options: ImageShapeOptions = {}): PixelSamples => {
+  const { selection, alphaThreshold, darkThreshold } = { ...IMAGE_SHAPE_DEFAULTS, ...options };
+  const { data, width, height } = image;
+  const total = width * height;
+
+  let mode = selection;
+  if (mode === 'auto') {
+    let transparent = 0;
+    for (let i = 0; i < total; i++) {
+      if (data[i * 4 + 3] < alphaThreshold) transparent++;
+    }
+    mode = transparent > total * 0.05 ? 'opaque' : 'dark';
+  }
+
+  const pixels: number[] = [];
+  const colors: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i4 = (y * width + x) * 4;
+      const r = data[i4];
+      const g = data[i4 + 1];
+      const b = data[i4 + 2];
+      const selected = mode === 'opaque'
+        ? data[i4 + 3] >= alphaThreshold
+        : data[i4 + 3] >= alphaThreshold && luminance(r, g, b) < darkThreshold;
+
+      if (selected) {
+        pixels.push(x, y);
+        colors.push(r / 255, g / 255, b / 255);
+      }
+    }
+  }
+
+  return { width, height, pixels: Uint32Array.from(pixels), colors: Float32Array.from(colors) };
+};
+
+// Scatter count points over the selected pixels, centred and scaled to the requested width
+export const samplePixels = (
+  samples: PixelSamples,
+  count: number,
+  seed: number,
+  options: ImageShapeOptions = {}
+): ShapeSample => {
+  const { size, depth } = { ...IMAGE_SHAPE_DEFAULTS, ...options };
+  const random = createRandom(seed);
+  const available = samples.pixels.length / 2;
+  const points: THREE.Vector3[] = [];
+  const colors: THREE.Color[] = [];
+  if (available === 0) return { points, colors };
+
+  const scale = size / Math.max(samples.width, samples.height);
+  const halfWidth = samples.width / 2;
+  const halfHeight = samples.height / 2;
+
+  for (let i = 0; i < count; i++) {
+    const pixel = Math.floor(random() * available);
+    const x = samples.pixels[pixel * 2] + random();
+    const y = samples.pixels[pixel * 2 + 1] + random();
+
+    // Image rows run downwards, world y runs up
+    points.push(new THREE.Vector3(
+      (x - halfWidth) * scale,
+      (halfHeight - y) * scale,
+      (random() - 0.5) * depth
+    ));
+    colors.push(new THREE.Color().setRGB(
+      samples.colors[pixel * 3],
+      samples.colors[pixel * 3 + 1],
+      samples.colors[pixel * 3 + 2],
+      THREE.SRGBColorSpace
+    ));
+  }
+
+  return { points, colors };
+};
+
+export const createImageShape = (
+  id: string,
+  label: string,
+  image: ImageData,
+  options: ImageShapeOptions = {}
+): ShapeDefinition => {
+  const samples = selectPixels(image, options);
+  if (samples.pixels.length === 0) {
+    throw new Error(`"${label}" has no opaque or dark pixels to turn into particles`);
+  }
+
+  return {
+    id,
+    label,
+    generate: (count, seed) => samplePixels(samples, count, seed, options),
+  };
+};
+
+const loadImage = (file: File) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error(`Could not read "${file.name}" as an image`));
+    };
+    image.src = url;
+  });
+
+// Rasterise a PNG, JPG or SVG file (SVG paths are drawn by the browser) into pixel data
+export const rasterizeImageFile = async (file: File) => {
+  if (!IMAGE_FILE_TYPES.includes(file.type)) {
+    throw new Error(`"${file.name}" is not a PNG, JPG or SVG file`);
+  }
+
+  const image = await loadImage(file);
+  const naturalWidth = image.naturalWidth || MAX_RASTER_SIZE;
+  const naturalHeight = image.naturalHeight || MAX_RASTER_SIZE;
+  const scale = Math.min(1, MAX_RASTER_SIZE / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas 2D is not available in this browser');
+  }
+  context.drawImage(image, 0, 0, width, height);
+  return context.getImageData(0, 0, width, height);
+};
+
+// Turn an uploaded file into a registered morph target
+export const importImageShape = async (file: File, options: ImageShapeOptions = {}) => {
+  const image = await rasterizeImageFile(file);
+  const definition = createImageShape(`image:${file.name}`, file.name, image, options);
+  registerShape(definition);
+  return definition;
+};
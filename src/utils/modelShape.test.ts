@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import * as THREE from 'three';
+import { describe, expect, it } from 'vitest';
+import { measureModel, parseModel, sampleModel, type ModelFormat } from './modelShape';
+
+const fixture = (name: string) => {
+  const file = readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+  return file.buffer.slice(file.byteOffset, file.byteOffset + file.byteLength);
+};
+
+const sample = async (name: string, format: ModelFormat, count = 500, size = 5) => {
+  const root = await parseModel(fixture(name), format);
+  return sampleModel(measureModel(root), count, 7, { size });
+};
+
+// Unit triangle with the given material, packed as a GLB with its vertices in the binary chunk
+const triangleGlb = (material: object) => {
+  const vertices = new Uint8Array(new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0]).buffer);
+  const text = JSON.stringify({
+    asset: { version: '2.0' },
+    scene: 0,
+    scenes: [{ nodes: [0] }],
+    nodes: [{ mesh: 0 }],
+    meshes: [{ primitives: [{ attributes: { POSITION: 0 }, material: 0 }] }],
+    materials: [material],
+    accessors: [{ bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] }],
+    bufferViews: [{ buffer: 0, byteLength: vertices.byteLength }],
+    buffers: [{ byteLength: vertices.byteLength }],
+  });
+  // Chunks are padded to four bytes
+  const json = new TextEncoder().encode(text.padEnd(Math.ceil(text.length / 4) * 4));
+
+  const glb = new ArrayBuffer(12 + 8 + json.byteLength + 8 + vertices.byteLength);
+  const view = new DataView(glb);
+  view.setUint32(0, 0x46546c67, true); // glTF
+  view.setUint32(4, 2, true);
+  view.setUint32(8, glb.byteLength, true);
+  view.setUint32(12, json.byteLength, true);
+  view.setUint32(16, 0x4e4f534a, true); // JSON
+  new Uint8Array(glb, 20).set(json);
+  view.setUint32(20 + json.byteLength, vertices.byteLength, true);
+  view.setUint32(24 + json.byteLength, 0x004e4942, true); // BIN
+  new Uint8Array(glb, 28 + json.byteLength).set(vertices);
+  return glb;
+};
+
+const bounds = (points: THREE.Vector3[]) => new THREE.Box3().setFromPoints(points);
+
+describe('parseModel and sampleModel', () => {
+  it('centres an OBJ on the origin and scales its largest side to the requested size', async () => {
+    const { points, colors } = await sample('quad.obj', 'obj', 500, 4);
+    const box = bounds(points);
+
+    expect(points).toHaveLength(500);
+    // Without an MTL file the loader's default white is not the model's colour
+    expect(colors).toBeUndefined();
+    expect(box.getCenter(new THREE.Vector3()).length()).toBeLessThan(1e-6);
+    expect(box.getSize(new THREE.Vector3()).x).toBeCloseTo(4, 1);
+    expect(box.getSize(new THREE.Vector3()).y).toBeCloseTo(2, 1);
+  });
+
+  it('takes particle colours from PLY vertex colours', async () => {
+    const { points, colors } = await sample('red-triangle.ply', 'ply');
+
+    expect(points).toHaveLength(500);
+    colors.forEach((color) => expect(color.toArray()).toEqual([1, 0, 0]));
+  });
+
+  it('applies node transforms and material colours from a GLB', async () => {
+    const root = await parseModel(fixture('green-triangle.glb'), 'glb');
+    const surfaces = measureModel(root);
+    const { points, colors } = sampleModel(surfaces, 200, 1, { size: 3 });
+
+    // The node scales the unit triangle by 3, so its area is 4.5 before normalising
+    expect(surfaces.total).toBeCloseTo(4.5);
+    const size = bounds(points).getSize(new THREE.Vector3());
+    expect(Math.max(size.x, size.y)).toBeCloseTo(3);
+    expect(size.z).toBe(0);
+    colors.forEach((color) => expect(color.toArray()).toEqual([0, 1, 0]));
+  });
+
+  it('leaves colours out for a glTF material without a base colour', async () => {
+    const root = await parseModel(triangleGlb({ pbrMetallicRoughness: { metallicFactor: 0 } }), 'glb');
+
+    expect(sampleModel(measureModel(root), 50, 1).colors).toBeUndefined();
+  });
+
+  it('is repeatable for a seed and leaves colours out when asked to', async () => {
+    const surfaces = measureModel(await parseModel(fixture('quad.obj'), 'obj'));
+
+    expect(sampleModel(surfaces, 50, 3).points).toEqual(sampleModel(surfaces, 50, 3).points);
+    expect(sampleModel(surfaces, 50, 3, { useColors: false }).colors).toBeUndefined();
+  });
+
+  it('rejects a glTF that needs separate files', async () => {
+    const gltf = JSON.stringify({
+      asset: { version: '2.0' },
+      buffers: [{ uri: 'scene.bin', byteLength: 36 }],
+      images: [{ uri: 'data:image/png;base64,' }, { uri: 'wings.png' }],
+    });
+
+    await expect(parseModel(new TextEncoder().encode(gltf).buffer, 'gltf'))
+      .rejects.toThrow('separate files (scene.bin, wings.png)');
+  });
+
+  it('rejects a model with nothing to sample', () => {
+    expect(() => measureModel(new THREE.Group())).toThrow(/no surfaces or vertices/);
+  });
+});
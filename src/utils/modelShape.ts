@@ -0,0 +1,281 @@
+import * as THREE from 'three';
+import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader.js';
+import { OBJLoader } from 'three/examples/jsm/loaders/OBJLoader.js';
+import { PLYLoader } from 'three/examples/jsm/loaders/PLYLoader.js';
+import { registerShape, type ShapeDefinition, type ShapeSample } from './shapeRegistry';
+import { createRandom } from './random';
+
+export type ModelFormat = 'obj' | 'gltf' | 'glb' | 'ply';
+
+export const MODEL_FILE_EXTENSIONS = ['.obj', '.gltf', '.glb', '.ply'];
+
+export interface ModelShapeOptions {
+  // Largest dimension of the formation in world units
+  size?: number;
+  // Use vertex or material colours when the model has them
+  useColors?: boolean;
+}
+
+export const MODEL_SHAPE_DEFAULTS: Required<ModelShapeOptions> = {
+  size: 5,
+  useColors: true,
+};
+
+export const modelFormatFromFileName = (fileName: string): ModelFormat | null => {
+  const extension = fileName.toLowerCase().split('.').pop();
+  return extension === 'obj' || extension === 'gltf' || extension === 'glb' || extension === 'ply'
+    ? extension
+    : null;
+};
+
+// URIs a glTF document needs besides itself; embedded data: URIs and the GLB binary chunk do not count
+const externalResources = (data: ArrayBuffer, format: 'gltf' | 'glb') => {
+  let json = data;
+  if (format === 'glb') {
+    // 12-byte header, then the JSON chunk's length and type before its content
+    const view = new DataView(data);
+    if (data.byteLength < 20) return [];
+    json = data.slice(20, 20 + view.getUint32(12, true));
+  }
+
+  let gltf: { buffers?: { uri?: string }[]; images?: { uri?: string }[] };
+  try {
+    gltf = JSON.parse(new TextDecoder().decode(json));
+  } catch {
+    // Leave malformed files to the loader, which reports them in its own words
+    return [];
+  }
+  return [...(gltf.buffers ?? []), ...(gltf.images ?? [])]
+    .map((resource) => resource.uri)
+    .filter((uri): uri is string => typeof uri === 'string' && !uri.startsWith('data:'));
+};
+
+// Set on materials whose colour came from the file; loaders fill in white for the rest
+const DEFINED_COLOR = 'definedColor';
+
+// Parse model data entirely in memory; nothing is fetched
+export const parseModel = async (data: ArrayBuffer, format: ModelFormat): Promise<THREE.Object3D> => {
+  switch (format) {
+    case 'obj':
+      // No MTL file is loaded alongside, so OBJ materials never carry a Kd of their own
+      return new OBJLoader().parse(new TextDecoder().decode(data));
+    case 'gltf':
+    case 'glb': {
+      // The loader would fetch these relative to the page, so a lone upload can never supply them
+      const external = externalResources(data, format);
+      if (external.length > 0) {
+        throw new Error(
+          `The model refers to separate files (${external.join(', ')}); export it as a single .glb or with embedded resources`
+        );
+      }
+      const gltf = await new GLTFLoader().parseAsync(data, '');
+      const definitions = gltf.parser.json.materials ?? [];
+      gltf.scene.traverse((object) => {
+        if (!(object instanceof THREE.Mesh || object instanceof THREE.Points)) return;
+        const materials: THREE.Material[] = Array.isArray(object.material) ? object.material : [object.material];
+        materials.forEach((material) => {
+          const index = gltf.parser.associations.get(material)?.materials;
+          if (index !== undefined && definitions[index]?.pbrMetallicRoughness?.baseColorFactor) {
+            material.userData[DEFINED_COLOR] = true;
+          }
+        });
+      });
+      return gltf.scene;
+    }
+    case 'ply': {
+      const geometry = new PLYLoader().parse(data);
+      // PLY files without faces are point clouds
+      return geometry.index ? new THREE.Mesh(geometry) : new THREE.Points(geometry);
+    }
+  }
+};
+
+interface SurfaceSource {
+  positions: THREE.BufferAttribute | THREE.InterleavedBufferAttribute;
+  colors: THREE.BufferAttribute | THREE.InterleavedBufferAttribute | null;
+  // Only set when the file defines the material colour
+  baseColor: THREE.Color | null;
+}
+
+// Every triangle (or lone vertex of a point cloud) in world space, with cumulative areas for weighted picking
+export interface ModelSurfaces {
+  sources: SurfaceSource[];
+  // Source and three vertex indices per face
+  faces: Uint32Array;
+  cumulative: Float64Array;
+  total: number;
+}
+
+const a = new THREE.Vector3();
+const b = new THREE.Vector3();
+const c = new THREE.Vector3();
+const ab = new THREE.Vector3();
+const ac = new THREE.Vector3();
+const colorA = new THREE.Color();
+const colorB = new THREE.Color();
+const colorC = new THREE.Color();
+
+// Flatten every mesh and point cloud in the scene graph into world-space faces, once per model
+export const measureModel = (root: THREE.Object3D): ModelSurfaces => {
+  const meshes: (THREE.Mesh | THREE.Points)[] = [];
+  root.updateMatrixWorld(true);
+  root.traverse((object) => {
+    if (object instanceof THREE.Mesh || object instanceof THREE.Points) meshes.push(object);
+  });
+  // Point clouds only count when there are no surfaces; their vertices have no area to weigh against faces
+  const hasSurfaces = meshes.some((object) => object instanceof THREE.Mesh);
+
+  const sources: SurfaceSource[] = [];
+  const faces: number[] = [];
+  const cumulative: number[] = [];
+  let total = 0;
+
+  meshes.forEach((object) => {
+    const triangles = object instanceof THREE.Mesh;
+    if (!triangles && hasSurfaces) return;
+
+    const geometry = (object.geometry as THREE.BufferGeometry).clone().applyMatrix4(object.matrixWorld);
+    const positions = geometry.attributes.position;
+    if (!positions) return;
+
+    const material = Array.isArray(object.material) ? object.material[0] : object.material;
+    const sourceIndex = sources.length;
+    sources.push({
+      positions,
+      colors: geometry.attributes.color ?? null,
+      baseColor: material?.userData[DEFINED_COLOR] && 'color' in material ? (material.color as THREE.Color) : null,
+    });
+
+    if (!triangles) {
+      for (let i = 0; i < positions.count; i++) {
+        faces.push(sourceIndex, i, i, i);
+        total += 1;
+        cumulative.push(total);
+      }
+      return;
+    }
+
+    const { index } = geometry;
+    const vertexCount = index ? index.count : positions.count;
+    const vertexAt = (i: number) => (index ? index.getX(i) : i);
+    for (let i = 0; i + 2 < vertexCount; i += 3) {
+      const i0 = vertexAt(i);
+      const i1 = vertexAt(i + 1);
+      const i2 = vertexAt(i + 2);
+      a.fromBufferAttribute(positions, i0);
+      b.fromBufferAttribute(positions, i1);
+      c.fromBufferAttribute(positions, i2);
+      const area = ab.subVectors(b, a).cross(ac.subVectors(c, a)).length() / 2;
+      if (area <= 0) continue;
+      faces.push(sourceIndex, i0, i1, i2);
+      total += area;
+      cumulative.push(total);
+    }
+  });
+
+  if (cumulative.length === 0) {
+    throw new Error('The model has no surfaces or vertices to sample');
+  }
+  return { sources, faces: Uint32Array.from(faces), cumulative: Float64Array.from(cumulative), total };
+};
+
+// Spread count points over the surfaces uniformly by area, or over the vertices of point clouds
+export const sampleModel = (
+  surfaces: ModelSurfaces,
+  count: number,
+  seed: number,
+  options: ModelShapeOptions = {}
+): ShapeSample => {
+  const { size, useColors } = { ...MODEL_SHAPE_DEFAULTS, ...options };
+  const { sources, faces, cumulative, total } = surfaces;
+  const random = createRandom(seed);
+  const points: THREE.Vector3[] = [];
+  const colors: (THREE.Color | undefined)[] = [];
+  let hasColor = false;
+
+  for (let n = 0; n < count; n++) {
+    const target = random() * total;
+    let low = 0;
+    let high = cumulative.length - 1;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (cumulative[mid] < target) low = mid + 1;
+      else high = mid;
+    }
+    const source = sources[faces[low * 4]];
+    const i0 = faces[low * 4 + 1];
+    const i1 = faces[low * 4 + 2];
+    const i2 = faces[low * 4 + 3];
+
+    // Uniform barycentric coordinates
+    let u = random();
+    let v = random();
+    if (u + v > 1) {
+      u = 1 - u;
+      v = 1 - v;
+    }
+    const w = 1 - u - v;
+
+    a.fromBufferAttribute(source.positions, i0);
+    b.fromBufferAttribute(source.positions, i1);
+    c.fromBufferAttribute(source.positions, i2);
+    points.push(new THREE.Vector3()
+      .addScaledVector(a, w)
+      .addScaledVector(b, u)
+      .addScaledVector(c, v));
+
+    if (useColors && source.colors) {
+      colorA.fromBufferAttribute(source.colors as THREE.BufferAttribute, i0).multiplyScalar(w);
+      colorB.fromBufferAttribute(source.colors as THREE.BufferAttribute, i1).multiplyScalar(u);
+      colorC.fromBufferAttribute(source.colors as THREE.BufferAttribute, i2).multiplyScalar(v);
+      colors.push(colorA.clone().add(colorB).add(colorC));
+      hasColor = true;
+    } else if (useColors && source.baseColor) {
+      colors.push(source.baseColor.clone());
+      hasColor = true;
+    } else {
+      colors.push(undefined);
+    }
+  }
+
+  normalizePoints(points, size);
+  return hasColor ? { points, colors } : { points };
+};
+
+// Centre the points on the origin and scale their largest dimension to size
+export const normalizePoints = (points: THREE.Vector3[], size: number) => {
+  const box = new THREE.Box3().setFromPoints(points);
+  const center = box.getCenter(new THREE.Vector3());
+  const extent = box.getSize(new THREE.Vector3());
+  const scale = size / (Math.max(extent.x, extent.y, extent.z) || 1);
+  points.forEach((point) => point.sub(center).multiplyScalar(scale));
+  return points;
+};
+
+export const createModelShape = (
+  id: string,
+  label: string,
+  root: THREE.Object3D,
+  options: ModelShapeOptions = {}
+): ShapeDefinition => {
+  // Broken files fail here, on import, rather than mid-morph
+  const surfaces = measureModel(root);
+  return {
+    id,
+    label,
+    generate: (count, seed) => sampleModel(surfaces, count, seed, options),
+  };
+};
+
+// Turn an uploaded OBJ, glTF/GLB or PLY file into a registered morph target
+export const importModelShape = async (file: File, options: ModelShapeOptions = {}) => {
+  const format = modelFormatFromFileName(file.name);
+  if (!format) {
+    throw new Error(`"${file.name}" is not an OBJ, glTF, GLB or PLY file`);
+  }
+
+  const root = await parseModel(await file.arrayBuffer(), format);
+  const definition = createModelShape(`model:${file.name}`, file.name, root, options);
+  registerShape(definition);
+  return definition;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { createMorphEngine, resolveEase, type MorphEventType } from './morphEngine';
+
+const wait = (seconds: number) => new Promise((resolve) => setTimeout(resolve, seconds * 1000));
+
+// Engine with every start and complete recorded in order
+const createRecordedEngine = () => {
+  const events: MorphEventType[] = [];
+  const engine = createMorphEngine(() => {});
+  engine.on('start', () => events.push('start'));
+  engine.on('complete', () => events.push('complete'));
+  return { engine, events };
+};
+
+describe('morph engine', () => {
+  it('rejects unknown eases before touching the running morph', async () => {
+    const { engine, events } = createRecordedEngine();
+    engine.play({ duration: 0.05 });
+
+    expect(() => engine.play({ duration: 0.05, ease: 'bouncy' })).toThrow('Unknown ease "bouncy"');
+    await wait(0.15);
+    expect(events).toEqual(['start', 'complete']);
+  });
+
+  it('resolves names and functions alike', () => {
+    expect(resolveEase('power2.out')(1)).toBe(1);
+    expect(resolveEase((t) => t * t)(0.5)).toBe(0.25);
+  });
+
+  it('stays quiet when reversed before it has moved', async () => {
+    const { engine, events } = createRecordedEngine();
+    engine.play({ duration: 0.05 });
+    engine.reverse();
+
+    await wait(0.15);
+    expect(events).toEqual([]);
+    expect(engine.isActive()).toBe(false);
+  });
+
+  it('keeps a paused morph paused when reversed', async () => {
+    const { engine, events } = createRecordedEngine();
+    engine.play({ duration: 0.2 });
+    await wait(0.08);
+    engine.pause();
+    engine.reverse();
+
+    await wait(0.1);
+    expect(engine.isPaused()).toBe(true);
+    engine.resume();
+    await wait(0.3);
+    expect(events).toEqual(['start', 'start', 'complete']);
+    expect(engine.progress()).toBe(0);
+  });
+
+  it('reverses a finished morph back with a start and complete', async () => {
+    const { engine, events } = createRecordedEngine();
+    engine.play({ duration: 0.05 });
+    await wait(0.15);
+    engine.reverse();
+
+    await wait(0.15);
+    expect(events).toEqual(['start', 'complete', 'start', 'complete']);
+  });
+
+  it('seeks a finished morph without setting it going again', async () => {
+    const { engine, events } = createRecordedEngine();
+    engine.play({ duration: 0.05 });
+    await wait(0.15);
+    engine.seek(0.5);
+
+    await wait(0.15);
+    expect(events).toEqual(['start', 'complete']);
+    expect(engine.progress()).toBe(0.5);
+
+    engine.resume();
+    await wait(0.15);
+    expect(events).toEqual(['start', 'complete', 'start', 'complete']);
+  });
+
+  it('pairs events when a finished morph is seeked to the beginning and resumed', async () => {
+    const { engine, events } = createRecordedEngine();
+    engine.play({ duration: 0.05 });
+    await wait(0.15);
+    engine.seek(0);
+    engine.resume();
+
+    await wait(0.15);
+    expect(events).toEqual(['start', 'complete', 'start', 'complete']);
+  });
+});
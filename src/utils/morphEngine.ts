@@ -0,0 +1,179 @@
+import gsap from 'gsap';
+
+export type MorphEase = gsap.EaseString | gsap.EaseFunction;
+
+// Eases offered in the UI; any GSAP ease string works through the API
+export const MORPH_EASES = [
+  { id: 'power2.out', label: 'Ease out' },
+  { id: 'power3.inOut', label: 'Ease in-out' },
+  { id: 'sine.inOut', label: 'Sine' },
+  { id: 'expo.out', label: 'Expo' },
+  { id: 'back.out', label: 'Back' },
+  { id: 'elastic.out', label: 'Elastic' },
+  { id: 'bounce.out', label: 'Bounce' },
+  { id: 'none', label: 'Linear' },
+];
+
+// GSAP ease for a name or function; unknown names throw here, before anything about a morph has changed
+export const resolveEase = (ease: MorphEase): gsap.EaseFunction => {
+  const parsed = gsap.parseEase(ease);
+  if (typeof parsed !== 'function') {
+    throw new Error(`Unknown ease "${String(ease)}"; try one like ${MORPH_EASES.map(({ id }) => id).join(', ')}`);
+  }
+  return parsed;
+};
+
+export const isMorphEase = (ease: MorphEase) => typeof gsap.parseEase(ease) === 'function';
+
+export interface MorphOptions {
+  duration: number;
+  ease?: MorphEase;
+}
+
+export interface MorphEventDetail {
+  // Linear time progress of the morph, 0 to 1
+  progress: number;
+  // Eased value handed to the particles
+  value: number;
+  reversed: boolean;
+}
+
+export type MorphEventType = 'start' | 'progress' | 'complete';
+export type MorphListener = (detail: MorphEventDetail) => void;
+
+export interface MorphEngine {
+  play: (options: MorphOptions) => void;
+  pause: () => void;
+  resume: () => void;
+  reverse: () => void;
+  seek: (progress: number) => void;
+  setSpeed: (speed: number) => void;
+  getSpeed: () => number;
+  progress: () => number;
+  isActive: () => boolean;
+  isPaused: () => boolean;
+  isReversed: () => boolean;
+  on: (type: MorphEventType, listener: MorphListener) => () => void;
+  kill: () => void;
+}
+
+// Drives a whole morph from one progress value; apply receives the eased value every update
+export const createMorphEngine = (apply: (value: number) => void): MorphEngine => {
+  const listeners: Record<MorphEventType, Set<MorphListener>> = {
+    start: new Set(),
+    progress: new Set(),
+    complete: new Set(),
+  };
+  const state = { progress: 0 };
+  let tween: gsap.core.Tween | null = null;
+  let ease = gsap.parseEase('power2.out');
+  let speed = 1;
+  // Between a start and its complete, so listeners always see the two in pairs
+  let running = false;
+
+  // Whether the playhead still has ground to cover in the direction it is facing
+  const hasDistanceLeft = () => !!tween && (tween.reversed() ? tween.progress() > 0 : tween.progress() < 1);
+  // GSAP fires onStart itself whenever a forward tween leaves zero
+  const startsItself = () => !!tween && !tween.reversed() && tween.progress() === 0;
+
+  const emit = (type: MorphEventType) => {
+    if (type === 'start') running = true;
+    if (type === 'complete') running = false;
+    const detail = {
+      progress: state.progress,
+      value: ease(state.progress),
+      reversed: tween ? tween.reversed() : false,
+    };
+    listeners[type].forEach((listener) => listener(detail));
+  };
+
+  const update = () => {
+    apply(ease(state.progress));
+    emit('progress');
+  };
+
+  const play = ({ duration, ease: easeOption = 'power2.out' }: MorphOptions) => {
+    const nextEase = resolveEase(easeOption);
+    tween?.kill();
+    ease = nextEase;
+    running = false;
+    state.progress = 0;
+    apply(ease(0));
+
+    tween = gsap.to(state, {
+      progress: 1,
+      duration,
+      ease: 'none',
+      onStart: () => {
+        if (!running) emit('start');
+      },
+      onUpdate: update,
+      // Seeking onto either end also lands here; only a morph under way has something to complete
+      onComplete: () => {
+        if (running) emit('complete');
+      },
+      onReverseComplete: () => {
+        if (running) emit('complete');
+      },
+    });
+    tween.timeScale(speed);
+  };
+
+  // Turn around, keeping a paused morph paused; nothing is announced if there is nowhere to go
+  const reverse = () => {
+    if (!tween) return;
+    const paused = tween.paused();
+    tween.reversed(!tween.reversed());
+    if (!hasDistanceLeft()) return;
+    if (!paused) tween.resume();
+    if (!startsItself()) emit('start');
+  };
+
+  const resume = () => {
+    if (!tween || !tween.paused()) return;
+    tween.resume();
+    // A morph seeked back from its end sets off again, so it opens a new start and complete pair
+    if (!running && hasDistanceLeft() && !startsItself()) emit('start');
+  };
+
+  // Move the playhead without setting a finished morph going again; it stays paused there until resumed
+  const seek = (progress: number) => {
+    if (!tween) return;
+    if (!running && !tween.paused() && !hasDistanceLeft()) tween.pause();
+    tween.progress(gsap.utils.clamp(0, 1, progress));
+  };
+
+  const setSpeed = (value: number) => {
+    speed = value;
+    tween?.timeScale(value);
+  };
+
+  const on = (type: MorphEventType, listener: MorphListener) => {
+    listeners[type].add(listener);
+    return () => {
+      listeners[type].delete(listener);
+    };
+  };
+
+  const kill = () => {
+    tween?.kill();
+    tween = null;
+    running = false;
+  };
+
+  return {
+    play,
+    pause: () => tween?.pause(),
+    resume,
+    reverse,
+    seek,
+    setSpeed,
+    getSpeed: () => speed,
+    progress: () => state.progress,
+    isActive: () => !!tween && tween.isActive(),
+    isPaused: () => !!tween && tween.paused(),
+    isReversed: () => !!tween && tween.reversed(),
+    on,
+    kill,
+  };
+};
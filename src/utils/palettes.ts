@@ -0,0 +1,67 @@
+import * as THREE from 'three';
+import type { RandomFn } from './random';
+
+export interface PaletteEntry {
+  color: string;
+  // Relative share of the cloud's particles taking this colour
+  weight: number;
+}
+
+export const PALETTES: Record<string, { label: string; entries: PaletteEntry[] }> = {
+  monarch: {
+    label: 'Monarch',
+    entries: [
+      { color: '#ffd700', weight: 0.5 },
+      { color: '#dc143c', weight: 0.3 },
+      { color: '#1a1a1a', weight: 0.2 },
+    ],
+  },
+  ember: {
+    label: 'Ember',
+    entries: [
+      { color: '#ff7b00', weight: 0.4 },
+      { color: '#ff2a00', weight: 0.4 },
+      { color: '#ffe8a3', weight: 0.2 },
+    ],
+  },
+  ocean: {
+    label: 'Ocean',
+    entries: [
+      { color: '#00b4d8', weight: 0.5 },
+      { color: '#0077b6', weight: 0.3 },
+      { color: '#caf0f8', weight: 0.2 },
+    ],
+  },
+  aurora: {
+    label: 'Aurora',
+    entries: [
+      { color: '#39ff9f', weight: 0.4 },
+      { color: '#7b2cff', weight: 0.35 },
+      { color: '#ff4fd8', weight: 0.25 },
+    ],
+  },
+};
+
+export const DEFAULT_PALETTE = PALETTES.monarch.entries;
+
+// Name of the built-in palette with exactly these entries, if any
+export const findPalette = (entries: PaletteEntry[]) => {
+  const key = JSON.stringify(entries);
+  return Object.keys(PALETTES).find((id) => JSON.stringify(PALETTES[id].entries) === key) ?? null;
+};
+
+// Weighted picker over the palette; one random draw per pick keeps seeded layouts stable
+export const createPalettePicker = (entries: PaletteEntry[]) => {
+  // Hex components go to the shader as-is, matching the raw RGB values the shapes use
+  const colors = entries.map((entry) => new THREE.Color().setStyle(entry.color, THREE.LinearSRGBColorSpace));
+  const total = entries.reduce((sum, entry) => sum + entry.weight, 0) || 1;
+
+  return (random: RandomFn) => {
+    let pick = random() * total;
+    for (let i = 0; i < entries.length - 1; i++) {
+      pick -= entries[i].weight;
+      if (pick < 0) return colors[i];
+    }
+    return colors[colors.length - 1];
+  };
+};
@@ -0,0 +1,171 @@
+import * as THREE from 'three';
+import { MAX_SHOCKWAVES } from './shockwave';
+
+// Default simulation parameters shared by the shader and its CPU mirror
+export const PARTICLE_DEFAULTS = {
+  size: 0.05,
+  opacity: 0.8,
+  stagger: 0.2,
+  floatAmplitude: 0.3,
+  attractRadius: 5,
+  attractStrength: 0.3,
+  // Sweeping the pointer through a formation knocks particles aside; they spring back home
+  scatterRadius: 0.8,
+  scatterStrength: 8,
+};
+
+export type ParticleSettings = Omit<typeof PARTICLE_DEFAULTS, 'stagger'>;
+
+export const PARTICLE_BLENDING = {
+  additive: THREE.AdditiveBlending,
+  normal: THREE.NormalBlending,
+  subtractive: THREE.SubtractiveBlending,
+};
+
+export type ParticleBlending = keyof typeof PARTICLE_BLENDING;
+
+// Wing flap model: wings rotate about the body (y) axis, lower wings trail the upper ones
+export interface FlapSettings {
+  // Wing beats per second
+  frequency: number;
+  // Peak rotation of the upper wings in radians
+  amplitude: number;
+  // Lower wing amplitude relative to the upper wings
+  lowerAmplitude: number;
+  // Phase lag of the lower wings in radians
+  lowerLag: number;
+  // Extra rotation towards the wing tips, so the wing bends rather than staying rigid
+  bend: number;
+  // Vertical body bob in world units
+  bob: number;
+}
+
+export const FLAP_DEFAULTS: FlapSettings = {
+  frequency: 1.3,
+  amplitude: 0.6,
+  lowerAmplitude: 0.75,
+  lowerLag: 0.4,
+  bend: 0.15,
+  bob: 0.08,
+};
+
+export const createParticleUniforms = () => ({
+  uTime: { value: 0 },
+  uProgress: { value: 1 },
+  uStagger: { value: PARTICLE_DEFAULTS.stagger },
+  uStartFree: { value: 1 },
+  uTargetFree: { value: 1 },
+  uFlap: { value: 0 },
+  uFlapPhase: { value: 0 },
+  uFlapAmplitude: { value: FLAP_DEFAULTS.amplitude },
+  uFlapLowerAmplitude: { value: FLAP_DEFAULTS.lowerAmplitude },
+  uFlapLowerLag: { value: FLAP_DEFAULTS.lowerLag },
+  uFlapBend: { value: FLAP_DEFAULTS.bend },
+  uBodyBob: { value: FLAP_DEFAULTS.bob },
+  uFloatAmplitude: { value: PARTICLE_DEFAULTS.floatAmplitude },
+  uSize: { value: PARTICLE_DEFAULTS.size },
+  uScale: { value: 1 },
+  uOpacity: { value: PARTICLE_DEFAULTS.opacity },
+  // Shockwave fronts: xyz centre and w radius, with a glow strength per slot
+  uWaves: { value: Array.from({ length: MAX_SHOCKWAVES }, () => new THREE.Vector4()) },
+  uWaveGlow: { value: new Array<number>(MAX_SHOCKWAVES).fill(0) },
+});
+
+export type ParticleUniforms = ReturnType<typeof createParticleUniforms>;
+
+// Per-particle progress: each particle starts after its own delay so the morph ripples through the cloud
+export const localProgress = (progress: number, delay: number, stagger: number) =>
+  THREE.MathUtils.clamp((progress - delay * stagger) / (1 - stagger), 0, 1);
+
+export const particleVertexShader = /* glsl */ `
+  attribute vec3 aTarget;
+  attribute vec3 aStartColor;
+  attribute vec3 aTargetColor;
+  attribute float aDelay;
+  attribute float aIndex;
+  // Displacement from home integrated on the CPU (mouse forces and the like)
+  attribute vec3 aOffset;
+
+  uniform float uTime;
+  uniform float uProgress;
+  uniform float uStagger;
+  uniform float uStartFree;
+  uniform float uTargetFree;
+  uniform float uFlap;
+  uniform float uFlapPhase;
+  uniform float uFlapAmplitude;
+  uniform float uFlapLowerAmplitude;
+  uniform float uFlapLowerLag;
+  uniform float uFlapBend;
+  uniform float uBodyBob;
+  uniform float uFloatAmplitude;
+  uniform float uSize;
+  uniform float uScale;
+  uniform vec4 uWaves[${MAX_SHOCKWAVES}];
+  uniform float uWaveGlow[${MAX_SHOCKWAVES}];
+
+  varying vec3 vColor;
+
+  // Rotate a wing point about the body axis; the body itself (x = 0) stays put
+  vec3 flapWing(vec3 p, float phase) {
+    float span = abs(p.x);
+    float upper = smoothstep(-0.3, 0.5, p.y);
+    float amplitude = uFlapAmplitude * mix(uFlapLowerAmplitude, 1.0, upper);
+    float beat = sin(phase - uFlapLowerLag * (1.0 - upper));
+    float angle = amplitude * beat * (1.0 + uFlapBend * span);
+    return vec3(sign(p.x) * span * cos(angle), p.y, p.z + span * sin(angle));
+  }
+
+  void main() {
+    float t = clamp((uProgress - aDelay * uStagger) / (1.0 - uStagger), 0.0, 1.0);
+    vec3 pos = mix(position, aTarget, t);
+
+    // Free floating motion fades between the cloud and a formation
+    float free = mix(uStartFree, uTargetFree, t);
+    pos += vec3(
+      sin(uTime + aIndex * 0.1),
+      cos(uTime + aIndex * 0.15),
+      sin(uTime + aIndex * 0.2) * 0.5
+    ) * uFloatAmplitude * free;
+
+    // Wing flapping once the formation has settled; the body bobs against the downstroke
+    float flap = uFlap * t;
+    pos += (flapWing(aTarget, uFlapPhase) - aTarget) * flap;
+    pos.y -= sin(uFlapPhase) * uBodyBob * flap;
+
+    pos += aOffset;
+
+    vec4 mvPosition = modelViewMatrix * vec4(pos, 1.0);
+    gl_Position = projectionMatrix * mvPosition;
+    gl_PointSize = uSize * (uScale / -mvPosition.z);
+
+    // Particles light up as a shockwave front passes through them
+    float glow = 0.0;
+    for (int i = 0; i < ${MAX_SHOCKWAVES}; i++) {
+      float front = distance(pos, uWaves[i].xyz) - uWaves[i].w;
+      glow += uWaveGlow[i] * exp(-front * front * 2.0);
+    }
+
+    // Particles take on their formation colour as they arrive
+    vColor = mix(aStartColor, aTargetColor, t) * (1.0 + glow * 1.5);
+  }
+`;
+
+export const particleFragmentShader = /* glsl */ `
+  uniform float uOpacity;
+
+  varying vec3 vColor;
+
+  void main() {
+    // Round, anti-aliased points
+    vec2 cxy = 2.0 * gl_PointCoord - 1.0;
+    float r = dot(cxy, cxy);
+    float delta = fwidth(r);
+    float mask = 1.0 - smoothstep(1.0 - delta, 1.0 + delta, r);
+
+    gl_FragColor = vec4(vColor, uOpacity * mask);
+
+    #include <tonemapping_fragment>
+    #include <colorspace_fragment>
+  }
+`;
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { createParticlePhysics } from './physics';
+
+describe('particle physics', () => {
+  it('springs a pushed particle back to rest', () => {
+    const physics = createParticlePhysics(2);
+    physics.forces[0] = 100;
+    for (let i = 0; i < 600 && (i === 0 || physics.isActive()); i++) physics.step(1 / 60);
+
+    expect(physics.isActive()).toBe(false);
+    expect(Math.abs(physics.offsets[0])).toBeLessThan(1e-3);
+  });
+
+  it('only writes the part of the buffer that changed', () => {
+    const physics = createParticlePhysics(100);
+    const out = new Float32Array(300);
+    physics.interpolate(1, out);
+
+    physics.forces[150] = 10;
+    physics.step(1 / 60);
+    expect(physics.interpolate(0.5, out)).toEqual({ start: 150, end: 151 });
+  });
+
+  it('keeps the buffer equal to a full blend across frames with several or no steps', () => {
+    const physics = createParticlePhysics(50);
+    const out = new Float32Array(150);
+
+    for (let frame = 0; frame < 200; frame++) {
+      for (let step = 0; step < frame % 3; step++) {
+        if (frame < 20) physics.forces[((frame * 7) % 50) * 3 + 1] = 40;
+        physics.step(1 / 60);
+      }
+      const alpha = (frame % 4) / 4;
+      physics.interpolate(alpha, out);
+      const expected = physics.previous.map((value, i) => value + (physics.offsets[i] - value) * alpha);
+      expect(out).toEqual(expected);
+    }
+  });
+});
@@ -0,0 +1,118 @@
+// Per-particle spring physics layered on top of the shader's morph: each particle carries an offset from
+// its home position (wherever the morph puts it) and a velocity, and a damped spring pulls the offset back to zero
+export interface PhysicsSettings {
+  // Spring constant pulling particles home, per second squared
+  stiffness: number;
+  // Velocity damping per second; 2 * sqrt(stiffness) is critically damped
+  damping: number;
+}
+
+export const PHYSICS_DEFAULTS: PhysicsSettings = {
+  stiffness: 8,
+  damping: 4,
+};
+
+// Longest step integrated at once; larger steps are clamped so the explicit spring cannot blow up
+export const MAX_PHYSICS_STEP = 1 / 30;
+
+export interface ParticlePhysics {
+  count: number;
+  offsets: Float32Array;
+  // Offsets as they were before the latest step, for interpolating between steps
+  previous: Float32Array;
+  velocities: Float32Array;
+  // Accelerations from external forces for the next step; cleared after every step
+  forces: Float32Array;
+  step: (dt: number, settings?: PhysicsSettings) => void;
+  // Blend the last two steps into out; alpha 0 is the previous step, 1 the latest. Only the array indices that
+  // changed since the last call are written, and returned (end exclusive) so just those need uploading
+  interpolate: (alpha: number, out: Float32Array) => PhysicsRange;
+  // True while any particle is still displaced or moving
+  isActive: () => boolean;
+  reset: () => void;
+}
+
+export interface PhysicsRange {
+  start: number;
+  end: number;
+}
+
+const EMPTY_RANGE: PhysicsRange = { start: 0, end: 0 };
+
+const unionRange = (a: PhysicsRange, b: PhysicsRange): PhysicsRange => {
+  if (a.end <= a.start) return b;
+  if (b.end <= b.start) return a;
+  return { start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) };
+};
+
+// Below this squared offset and speed a particle is considered at rest
+const REST_EPSILON = 1e-8;
+
+export const createParticlePhysics = (count: number): ParticlePhysics => {
+  const offsets = new Float32Array(count * 3);
+  const previous = new Float32Array(count * 3);
+  const velocities = new Float32Array(count * 3);
+  const forces = new Float32Array(count * 3);
+  let active = false;
+  // What the latest step changed, which every frame re-blends, and what earlier steps changed since the last
+  // blend, which still needs writing once at its final value
+  let latest = EMPTY_RANGE;
+  let pending: PhysicsRange = { start: 0, end: count * 3 };
+
+  // Semi-implicit Euler: velocity first, then position from the new velocity, which keeps springs stable
+  const step = (dt: number, { stiffness, damping }: PhysicsSettings = PHYSICS_DEFAULTS) => {
+    const h = Math.min(dt, MAX_PHYSICS_STEP);
+    let energy = 0;
+    let start = count * 3;
+    let end = 0;
+    previous.set(offsets);
+
+    for (let i = 0; i < count * 3; i++) {
+      const velocity = velocities[i] + (forces[i] - stiffness * offsets[i] - damping * velocities[i]) * h;
+      const offset = offsets[i] + velocity * h;
+      if (offset !== offsets[i]) {
+        start = Math.min(start, i);
+        end = i + 1;
+      }
+      velocities[i] = velocity;
+      offsets[i] = offset;
+      forces[i] = 0;
+      energy = Math.max(energy, offset * offset, velocity * velocity);
+    }
+
+    active = energy > REST_EPSILON;
+    pending = unionRange(pending, latest);
+    latest = end > start ? { start, end } : EMPTY_RANGE;
+  };
+
+  const interpolate = (alpha: number, out: Float32Array) => {
+    const range = unionRange(pending, latest);
+    for (let i = range.start; i < range.end; i++) {
+      out[i] = previous[i] + (offsets[i] - previous[i]) * alpha;
+    }
+    pending = EMPTY_RANGE;
+    return range;
+  };
+
+  const reset = () => {
+    offsets.fill(0);
+    previous.fill(0);
+    velocities.fill(0);
+    forces.fill(0);
+    active = false;
+    latest = EMPTY_RANGE;
+    pending = { start: 0, end: count * 3 };
+  };
+
+  return {
+    count,
+    offsets,
+    previous,
+    velocities,
+    forces,
+    step,
+    interpolate,
+    isActive: () => active,
+    reset,
+  };
+};
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PRESET_STORAGE_KEY,
+  PRESET_STORE_VERSION,
+  createPreset,
+  loadPresets,
+  migratePresetStore,
+  parsePresetStore,
+  savePresets,
+} from './presets';
+import { DEFAULT_SCENE_CONFIG, SCENE_CONFIG_VERSION, migrateSceneConfig } from './sceneConfig';
+
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() {
+      return items.size;
+    },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => {
+      items.delete(key);
+    },
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+  };
+};
+
+const preset = (name: string) => createPreset(name, { seed: 42, shape: 'butterfly', text: null, config: DEFAULT_SCENE_CONFIG });
+
+describe('preset store', () => {
+  it('round-trips presets through storage', () => {
+    const storage = createStorage();
+    const saved = [preset('One'), preset('Two')];
+    savePresets(saved, [], storage);
+
+    expect(loadPresets(storage)).toEqual({ presets: saved, skipped: [], unreadable: [] });
+  });
+
+  it('keeps presets that fail validation when saving again', () => {
+    const storage = createStorage();
+    const broken = { id: 'broken', name: 'Broken', seed: -1 };
+    storage.setItem(PRESET_STORAGE_KEY, JSON.stringify({ version: PRESET_STORE_VERSION, presets: [preset('Good'), broken] }));
+
+    const { presets, skipped, unreadable } = loadPresets(storage);
+    expect(presets.map((entry) => entry.name)).toEqual(['Good']);
+    expect(skipped).toHaveLength(1);
+    expect(unreadable).toEqual([broken]);
+
+    savePresets([], unreadable, storage);
+    expect(JSON.parse(storage.getItem(PRESET_STORAGE_KEY)).presets).toEqual([broken]);
+  });
+
+  it('refuses a library from a newer version', () => {
+    expect(() => migratePresetStore({ version: PRESET_STORE_VERSION + 1, presets: [] })).toThrow(/newer version/);
+  });
+
+  it('upgrades an older library one version at a time', () => {
+    const migrations = {
+      [PRESET_STORE_VERSION - 1]: ({ items, ...store }: Record<string, unknown>) => ({ ...store, presets: items }),
+    };
+    const good = preset('Old');
+    const { presets } = parsePresetStore({ version: PRESET_STORE_VERSION - 1, items: [good] }, migrations);
+
+    expect(presets).toEqual([good]);
+  });
+});
+
+describe('scene config migration', () => {
+  it('treats a config without a version as current', () => {
+    expect(migrateSceneConfig({ background: '#000000' })).toEqual({ background: '#000000' });
+  });
+
+  it('upgrades an older config through each migration', () => {
+    const migrations = {
+      [SCENE_CONFIG_VERSION - 1]: ({ bg, ...config }: Record<string, unknown>) => ({ ...config, background: bg }),
+    };
+
+    expect(migrateSceneConfig({ version: SCENE_CONFIG_VERSION - 1, bg: '#123456' }, migrations))
+      .toEqual({ version: SCENE_CONFIG_VERSION, background: '#123456' });
+  });
+
+  it('rejects a version it has no migration for', () => {
+    expect(() => migrateSceneConfig({ version: SCENE_CONFIG_VERSION - 1 })).toThrow(/can no longer be read/);
+  });
+
+  it('skips a preset whose config is from a newer version instead of failing the library', () => {
+    const future = { ...preset('Future'), config: { ...DEFAULT_SCENE_CONFIG, version: SCENE_CONFIG_VERSION + 1 } };
+    const { presets, skipped, unreadable } = parsePresetStore({ version: PRESET_STORE_VERSION, presets: [future] });
+
+    expect(presets).toEqual([]);
+    expect(skipped[0]).toMatch(/newer version/);
+    expect(unreadable).toEqual([future]);
+  });
+});
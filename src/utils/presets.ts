@@ -0,0 +1,132 @@
+import { z } from 'zod';
+import { MAX_SEED } from './random';
+import { storedSceneConfigSchema, type SceneConfig } from './sceneConfig';
+import { formatIssues } from './validation';
+
+export const PRESET_STORAGE_KEY = 'particle-monarch.presets';
+export const PRESET_STORE_VERSION = 1;
+
+export interface PresetScene {
+  seed: number;
+  // Formation the preset opens in; null for the free cloud
+  shape: string | null;
+  // Message and font when the shape is spelled text
+  text: { text: string; font: string } | null;
+  config: SceneConfig;
+}
+
+export interface Preset extends PresetScene {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Each preset's config is upgraded from its own version, so raising the config version keeps old presets
+const presetSchema = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  createdAt: z.number(),
+  updatedAt: z.number(),
+  seed: z.number().int().min(0).max(MAX_SEED),
+  shape: z.string().nullable(),
+  text: z.object({ text: z.string().min(1), font: z.string().min(1) }).nullable().default(null),
+  config: storedSceneConfigSchema,
+}).transform((preset) => preset as Preset);
+
+// Each entry upgrades a stored library from that version to the next; add one whenever the stored shape
+// changes in a way defaults cannot cover (renamed or restructured fields)
+export type PresetStoreMigrations = Record<number, (store: Record<string, unknown>) => Record<string, unknown>>;
+
+const MIGRATIONS: PresetStoreMigrations = {};
+
+export const migratePresetStore = (data: unknown, migrations = MIGRATIONS) => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    throw new Error('Saved presets are not in a recognised format');
+  }
+
+  let store = data as Record<string, unknown>;
+  let version = typeof store.version === 'number' ? store.version : 0;
+  if (version > PRESET_STORE_VERSION) {
+    throw new Error(`Saved presets come from a newer version of the app (format ${version})`);
+  }
+
+  while (version < PRESET_STORE_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Saved presets use format ${version}, which can no longer be read`);
+    }
+    store = { ...migrate(store), version: version + 1 };
+    version += 1;
+  }
+  return store;
+};
+
+export interface PresetLoadResult {
+  presets: Preset[];
+  // Presets that failed validation are left out individually rather than losing the whole library
+  skipped: string[];
+  // The stored entries behind skipped, written back on every save so a fix in a later version can still read them
+  unreadable: unknown[];
+}
+
+export const parsePresetStore = (data: unknown, migrations = MIGRATIONS): PresetLoadResult => {
+  const store = migratePresetStore(data, migrations);
+  const entries = Array.isArray(store.presets) ? store.presets : [];
+  const presets: Preset[] = [];
+  const skipped: string[] = [];
+  const unreadable: unknown[] = [];
+
+  entries.forEach((entry, index) => {
+    const result = presetSchema.safeParse(entry);
+    if (result.success) {
+      presets.push(result.data);
+    } else {
+      skipped.push(formatIssues(result.error, `preset ${index + 1}`));
+      unreadable.push(entry);
+    }
+  });
+
+  return { presets, skipped, unreadable };
+};
+
+export const loadPresets = (storage: Storage = window.localStorage): PresetLoadResult => {
+  const raw = storage.getItem(PRESET_STORAGE_KEY);
+  if (raw === null) return { presets: [], skipped: [], unreadable: [] };
+
+  let data: unknown;
+  try {
+    data = JSON.parse(raw);
+  } catch {
+    throw new Error('Saved presets are corrupted and could not be read');
+  }
+  return parsePresetStore(data);
+};
+
+// Throws if storage is full or unavailable
+export const savePresets = (presets: Preset[], unreadable: unknown[] = [], storage: Storage = window.localStorage) => {
+  storage.setItem(PRESET_STORAGE_KEY, JSON.stringify({ version: PRESET_STORE_VERSION, presets: [...presets, ...unreadable] }));
+};
+
+const createId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const createPreset = (name: string, scene: PresetScene): Preset => {
+  const now = Date.now();
+  return { ...scene, id: createId(), name: name.trim(), createdAt: now, updatedAt: now };
+};
+
+export const renamePreset = (presets: Preset[], id: string, name: string) =>
+  presets.map((preset) => (preset.id === id ? { ...preset, name: name.trim(), updatedAt: Date.now() } : preset));
+
+export const deletePreset = (presets: Preset[], id: string) => presets.filter((preset) => preset.id !== id);
+
+// The copy lands right after the original
+export const duplicatePreset = (presets: Preset[], id: string) => {
+  const index = presets.findIndex((preset) => preset.id === id);
+  if (index < 0) return presets;
+  const copy = createPreset(`${presets[index].name} copy`, presets[index]);
+  return [...presets.slice(0, index + 1), copy, ...presets.slice(index + 1)];
+};
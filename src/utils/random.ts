@@ -0,0 +1,28 @@
+// Seedable pseudo-random number generator (mulberry32)
+export type RandomFn = () => number;
+
+export const MAX_SEED = 2 ** 32 - 1;
+
+export const createRandom = (seed: number): RandomFn => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Derive an independent stream from a base seed, e.g. for per-morph jitter
+export const deriveSeed = (seed: number, salt: number) =>
+  (Math.imul((seed >>> 0) ^ 0x9e3779b9, 0x85ebca6b) + Math.imul(salt, 0xc2b2ae35)) >>> 0;
+
+export const randomSeed = () => Math.floor(Math.random() * MAX_SEED);
+
+export const parseSeed = (value: string | null | undefined) => {
+  if (value == null || value.trim() === '') return null;
+  const seed = Number(value);
+  if (!Number.isInteger(seed) || seed < 0 || seed > MAX_SEED) return null;
+  return seed;
+};
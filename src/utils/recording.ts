@@ -0,0 +1,43 @@
+export const RECORDING_RESOLUTIONS = [
+  { id: '720p', label: '720p', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p', width: 1920, height: 1080 },
+  { id: '1440p', label: '1440p', width: 2560, height: 1440 },
+  { id: '4k', label: '4K', width: 3840, height: 2160 },
+  { id: 'square', label: 'Square 1080', width: 1080, height: 1080 },
+  { id: 'vertical', label: 'Vertical 1080', width: 1080, height: 1920 },
+];
+
+export const RECORDING_FRAME_RATES = [24, 30, 60];
+
+// Seconds; null records until stopped by hand
+export const RECORDING_DURATIONS: (number | null)[] = [null, 3, 5, 8, 12];
+
+export interface RecordingOptions {
+  width: number;
+  height: number;
+  fps: number;
+}
+
+export const RECORDING_DEFAULTS: RecordingOptions = {
+  width: 1920,
+  height: 1080,
+  fps: 30,
+};
+
+const WEBM_TYPES = ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'];
+
+export const pickWebmType = () => {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return WEBM_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+};
+
+// Roughly 0.15 bits per pixel per frame, enough for fine particles without huge files
+export const recordingBitrate = ({ width, height, fps }: RecordingOptions) => Math.round(width * height * fps * 0.15);
+
+// Centred crop of the source that fills the target aspect ratio
+export const coverRect = (sourceWidth: number, sourceHeight: number, targetWidth: number, targetHeight: number) => {
+  const scale = Math.min(sourceWidth / targetWidth, sourceHeight / targetHeight);
+  const width = targetWidth * scale;
+  const height = targetHeight * scale;
+  return { x: (sourceWidth - width) / 2, y: (sourceHeight - height) / 2, width, height };
+};
@@ -0,0 +1,12 @@
+import { describe, expect, it } from 'vitest';
+import { validateSceneConfig } from './sceneConfig';
+
+describe('validateSceneConfig', () => {
+  it('accepts eases GSAP knows', () => {
+    expect(validateSceneConfig({ morph: { ease: 'elastic.out' } }).morph.ease).toBe('elastic.out');
+  });
+
+  it('rejects eases GSAP cannot parse', () => {
+    expect(() => validateSceneConfig({ morph: { ease: 'bouncy' } })).toThrow('morph.ease: Unknown ease "bouncy"');
+  });
+});
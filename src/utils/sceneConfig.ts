@@ -0,0 +1,189 @@
+import * as THREE from 'three';
+import { z } from 'zod';
+import { FLAP_DEFAULTS, PARTICLE_BLENDING, PARTICLE_DEFAULTS, type ParticleBlending } from './particleShader';
+import { DEFAULT_PALETTE, type PaletteEntry } from './palettes';
+import { PHYSICS_DEFAULTS } from './physics';
+import { isMorphEase } from './morphEngine';
+import { downloadBlob } from './download';
+import { formatIssues, parseJson } from './validation';
+
+export const SCENE_CONFIG_VERSION = 1;
+
+// Without strictNullChecks zod infers loose types (open tuples, optional keys); transforms pin them down
+const vector3 = z.tuple([z.number(), z.number(), z.number()])
+  .transform((value) => value as [number, number, number]);
+const color = z.string().regex(/^#[0-9a-fA-F]{6}$/, 'Expected a hex colour like #ffd700');
+// Any ease GSAP can parse; an unknown name would otherwise only fail once a morph has begun
+export const easeSchema = z.string().refine(isMorphEase, (ease) => ({ message: `Unknown ease "${ease}"` }));
+const blending = z.enum(Object.keys(PARTICLE_BLENDING) as [ParticleBlending, ...ParticleBlending[]]);
+
+const pointLightSchema = z.object({
+  position: vector3,
+  intensity: z.number().min(0),
+  color,
+});
+
+const paletteEntrySchema = z.object({
+  color,
+  weight: z.number().positive(),
+}).transform((entry) => entry as PaletteEntry);
+
+// Every field has a default, so a config only needs the values it changes
+export const sceneConfigSchema = z.object({
+  version: z.literal(SCENE_CONFIG_VERSION).default(SCENE_CONFIG_VERSION),
+  background: color.default('#0a0a0a'),
+  camera: z.object({
+    position: vector3.default([0, 0, 10]),
+    fov: z.number().min(10).max(120).default(60),
+  }).default({}),
+  lights: z.object({
+    ambient: z.object({
+      intensity: z.number().min(0).default(0.3),
+      color: color.default('#ffffff'),
+    }).default({}),
+    points: z.array(pointLightSchema).default([
+      { position: [10, 10, 10], intensity: 1, color: '#ffd700' },
+      { position: [-10, -10, 10], intensity: 0.5, color: '#dc143c' },
+    ]),
+    spot: z.object({
+      position: vector3.default([0, 10, 0]),
+      angle: z.number().min(0).max(Math.PI / 2).default(0.3),
+      penumbra: z.number().min(0).max(1).default(0.5),
+      intensity: z.number().min(0).default(0.5),
+      color: color.default('#ffd700'),
+    }).default({}),
+  }).default({}),
+  stars: z.object({
+    radius: z.number().positive().default(300),
+    depth: z.number().positive().default(60),
+    count: z.number().int().min(0).max(50000).default(2000),
+    factor: z.number().min(0).default(7),
+    saturation: z.number().min(0).max(1).default(0),
+    fade: z.boolean().default(true),
+  }).default({}),
+  controls: z.object({
+    enablePan: z.boolean().default(false),
+    enableZoom: z.boolean().default(true),
+    enableRotate: z.boolean().default(true),
+    autoRotate: z.boolean().default(true),
+    autoRotateSpeed: z.number().default(0.5),
+    minDistance: z.number().positive().default(5),
+    maxDistance: z.number().positive().default(20),
+    maxPolarAngle: z.number().min(0).max(Math.PI).default(Math.PI / 1.5),
+  }).default({}).refine(
+    (controls) => controls.minDistance <= controls.maxDistance,
+    { message: 'minDistance must not exceed maxDistance', path: ['minDistance'] }
+  ),
+  particles: z.object({
+    count: z.number().int().min(1).max(500000).default(1500),
+    size: z.number().positive().default(PARTICLE_DEFAULTS.size),
+    opacity: z.number().min(0).max(1).default(PARTICLE_DEFAULTS.opacity),
+    blending: blending.default('additive'),
+    floatAmplitude: z.number().min(0).default(PARTICLE_DEFAULTS.floatAmplitude),
+    attractRadius: z.number().positive().default(PARTICLE_DEFAULTS.attractRadius),
+    attractStrength: z.number().min(0).default(PARTICLE_DEFAULTS.attractStrength),
+    scatterRadius: z.number().positive().default(PARTICLE_DEFAULTS.scatterRadius),
+    scatterStrength: z.number().min(0).default(PARTICLE_DEFAULTS.scatterStrength),
+    // Colours of the free-floating cloud
+    palette: z.array(paletteEntrySchema).min(1).max(16).default(DEFAULT_PALETTE),
+  }).default({}),
+  physics: z.object({
+    stiffness: z.number().min(0).default(PHYSICS_DEFAULTS.stiffness),
+    damping: z.number().min(0).default(PHYSICS_DEFAULTS.damping),
+  }).default({}),
+  morph: z.object({
+    duration: z.number().positive().max(30).default(2),
+    ease: easeSchema.default('power2.out'),
+  }).default({}),
+  flap: z.object({
+    frequency: z.number().min(0).default(FLAP_DEFAULTS.frequency),
+    amplitude: z.number().min(0).default(FLAP_DEFAULTS.amplitude),
+    lowerAmplitude: z.number().min(0).default(FLAP_DEFAULTS.lowerAmplitude),
+    lowerLag: z.number().default(FLAP_DEFAULTS.lowerLag),
+    bend: z.number().default(FLAP_DEFAULTS.bend),
+    bob: z.number().min(0).default(FLAP_DEFAULTS.bob),
+  }).default({}),
+});
+
+export type SceneConfig = z.infer<typeof sceneConfigSchema>;
+export type SceneConfigInput = z.input<typeof sceneConfigSchema>;
+
+export const DEFAULT_SCENE_CONFIG: SceneConfig = sceneConfigSchema.parse({});
+
+export type SceneConfigMigrations = Record<number, (config: Record<string, unknown>) => Record<string, unknown>>;
+
+// Each entry upgrades a config from that version to the next; add one whenever a field is renamed or
+// restructured, since fields that are only added are filled from their defaults
+const SCENE_CONFIG_MIGRATIONS: SceneConfigMigrations = {};
+
+// Bring a config saved by an older version of the app up to the current version; a config without a
+// version is taken to be current, as hand-written configs usually leave it out
+export const migrateSceneConfig = (data: unknown, migrations = SCENE_CONFIG_MIGRATIONS) => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) return data;
+
+  let config = data as Record<string, unknown>;
+  let version = typeof config.version === 'number' ? config.version : SCENE_CONFIG_VERSION;
+  if (version > SCENE_CONFIG_VERSION) {
+    throw new Error(`This scene config comes from a newer version of the app (version ${version})`);
+  }
+
+  while (version < SCENE_CONFIG_VERSION) {
+    const migrate = migrations[version];
+    if (!migrate) {
+      throw new Error(`Scene config version ${version} can no longer be read`);
+    }
+    config = { ...migrate(config), version: version + 1 };
+    version += 1;
+  }
+  return config;
+};
+
+// Accepts configs from any version the migrations can upgrade, for configs that were stored or shared
+export const storedSceneConfigSchema = z.preprocess((data, ctx) => {
+  try {
+    return migrateSceneConfig(data);
+  } catch (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error instanceof Error ? error.message : String(error) });
+    return z.NEVER;
+  }
+}, sceneConfigSchema);
+
+export const validateSceneConfig = (data: unknown): SceneConfig => {
+  const result = storedSceneConfigSchema.safeParse(data);
+  if (!result.success) {
+    throw new Error(formatIssues(result.error));
+  }
+  return result.data;
+};
+
+export const parseSceneConfig = (json: string) => validateSceneConfig(parseJson(json));
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// Copy of the config with the camera wherever it has been orbited to
+export const withCameraPose = (config: SceneConfig, camera: THREE.Camera | null): SceneConfig => {
+  if (!camera) return config;
+  return {
+    ...config,
+    camera: {
+      position: camera.position.toArray().map(round) as [number, number, number],
+      fov: camera instanceof THREE.PerspectiveCamera ? round(camera.fov) : config.camera.fov,
+    },
+  };
+};
+
+export const serializeSceneConfig = (config: SceneConfig) => JSON.stringify(config, null, 2);
+
+export const loadSceneConfigFile = async (file: File) => parseSceneConfig(await file.text());
+
+export const loadSceneConfigUrl = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Could not load scene config from ${url} (${response.status} ${response.statusText})`);
+  }
+  return parseSceneConfig(await response.text());
+};
+
+export const downloadSceneConfig = (config: SceneConfig, fileName = 'scene.json') => {
+  downloadBlob(new Blob([serializeSceneConfig(config)], { type: 'application/json' }), fileName);
+};
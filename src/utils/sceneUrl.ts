@@ -0,0 +1,102 @@
+import { DEFAULT_SCENE_CONFIG, validateSceneConfig, type SceneConfig } from './sceneConfig';
+import { TEXT_SHAPE_ID, getTextShapeSource, registerTextShape } from './textShape';
+import { parseJson } from './validation';
+import { parseSeed } from './random';
+
+export interface SharedScene {
+  seed: number;
+  config: SceneConfig;
+  // Formation to restore; null for the free cloud
+  shape: string | null;
+}
+
+export interface RestoredScene {
+  seed: number | null;
+  config: SceneConfig | null;
+  shape: string | null;
+  // Set when the link carried a scene that could not be restored
+  error: string | null;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Only the fields that differ from the base; arrays are compared whole
+const diffConfig = (value: unknown, base: unknown): unknown => {
+  if (isPlainObject(value) && isPlainObject(base)) {
+    const changed: Record<string, unknown> = {};
+    Object.keys(value).forEach((key) => {
+      const difference = diffConfig(value[key], base[key]);
+      if (difference !== undefined) changed[key] = difference;
+    });
+    return Object.keys(changed).length > 0 ? changed : undefined;
+  }
+  return JSON.stringify(value) === JSON.stringify(base) ? undefined : value;
+};
+
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (value: string) => {
+  const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, (char) => char.charCodeAt(0)));
+};
+
+// Imported images and models live only in this browser, so links cannot carry them
+export const isShareableShape = (shapeId: string) => !shapeId.includes(':');
+
+// Query parameters describing the scene; defaults are left out to keep links short
+export const createShareParams = ({ seed, config, shape }: SharedScene) => {
+  const params = new URLSearchParams({ seed: String(seed) });
+
+  if (shape !== null && isShareableShape(shape)) {
+    const source = shape === TEXT_SHAPE_ID ? getTextShapeSource() : null;
+    if (shape !== TEXT_SHAPE_ID || source) params.set('shape', shape);
+    if (source) {
+      params.set('text', source.text);
+      params.set('font', source.font);
+    }
+  }
+
+  const changes = diffConfig(config, DEFAULT_SCENE_CONFIG);
+  if (changes !== undefined) params.set('scene', toBase64Url(JSON.stringify(changes)));
+
+  return params;
+};
+
+export const createShareUrl = (scene: SharedScene, location: Location = window.location) =>
+  `${location.origin}${location.pathname}?${createShareParams(scene)}`;
+
+// Read a scene back out of a shared link; a text formation is registered so it can be morphed to
+export const readSharedScene = (params: URLSearchParams): RestoredScene => {
+  const restored: RestoredScene = { seed: parseSeed(params.get('seed')), config: null, shape: null, error: null };
+
+  try {
+    const scene = params.get('scene');
+    if (scene !== null) {
+      let json: string;
+      try {
+        json = fromBase64Url(scene);
+      } catch {
+        throw new Error('The scene in this link is not valid base64');
+      }
+      restored.config = validateSceneConfig(parseJson(json));
+    }
+
+    const shape = params.get('shape');
+    if (shape === TEXT_SHAPE_ID) {
+      registerTextShape(params.get('text') ?? '', { font: params.get('font') ?? undefined });
+    }
+    restored.shape = shape;
+  } catch (error) {
+    restored.error = error instanceof Error ? error.message : String(error);
+  }
+
+  return restored;
+};
@@ -0,0 +1,45 @@
+import * as THREE from 'three';
+
+// Target points for a formation; colors, when present, line up with points and a missing entry keeps the particle's own colour
+export interface ShapeSample {
+  points: THREE.Vector3[];
+  colors?: (THREE.Color | undefined)[];
+}
+
+// A shape generator returns target points for the given particle count and seed
+export type ShapeGenerator = (count: number, seed: number) => ShapeSample;
+
+export interface ShapeDefinition {
+  id: string;
+  label: string;
+  generate: ShapeGenerator;
+  // Whether the formation flaps its wings once settled
+  flap?: boolean;
+}
+
+const shapes = new Map<string, ShapeDefinition>();
+
+export const registerShape = (definition: ShapeDefinition) => {
+  shapes.set(definition.id, definition);
+  return () => {
+    if (shapes.get(definition.id) === definition) {
+      shapes.delete(definition.id);
+    }
+  };
+};
+
+export const unregisterShape = (id: string) => shapes.delete(id);
+
+export const hasShape = (id: string) => shapes.has(id);
+
+export const getShape = (id: string) => shapes.get(id);
+
+export const listShapes = () => Array.from(shapes.values());
+
+export const generateShape = (id: string, count: number, seed: number) => {
+  const definition = shapes.get(id);
+  if (!definition) {
+    throw new Error(`Unknown shape "${id}". Registered shapes: ${Array.from(shapes.keys()).join(', ') || 'none'}`);
+  }
+  return definition.generate(count, seed);
+};
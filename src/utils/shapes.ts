@@ -0,0 +1,9 @@
+import { registerShape } from './shapeRegistry';
+import { butterflyShape } from './butterflyShape';
+import { spiralShape } from './spiralShape';
+
+// Built-in formations; additional shapes can be added with registerShape
+registerShape(butterflyShape);
+registerShape(spiralShape);
+
+export * from './shapeRegistry';
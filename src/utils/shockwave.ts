@@ -0,0 +1,100 @@
+import * as THREE from 'three';
+
+export interface ShockwaveSettings {
+  // Outward acceleration at the wave front, world units per second squared
+  strength: number;
+  // How fast the front expands, world units per second
+  speed: number;
+  // Thickness of the front
+  width: number;
+  // Radius at which the wave has faded out completely
+  reach: number;
+}
+
+export const SHOCKWAVE_DEFAULTS: ShockwaveSettings = {
+  strength: 160,
+  speed: 14,
+  width: 1.5,
+  reach: 25,
+};
+
+// Waves alive at once; the shader has a fixed slot for each
+export const MAX_SHOCKWAVES = 4;
+
+interface Shockwave extends ShockwaveSettings {
+  center: THREE.Vector3;
+  age: number;
+}
+
+// Strength left at a given radius; fades linearly to nothing at the wave's reach
+const fade = (wave: Shockwave, radius: number) => Math.max(1 - radius / wave.reach, 0);
+
+export const createShockwaves = () => {
+  let waves: Shockwave[] = [];
+
+  const launch = (center: THREE.Vector3, settings: Partial<ShockwaveSettings> = {}) => {
+    // The oldest wave gives up its slot
+    if (waves.length >= MAX_SHOCKWAVES) waves = waves.slice(1);
+    waves.push({ ...SHOCKWAVE_DEFAULTS, ...settings, center: center.clone(), age: 0 });
+  };
+
+  // Push particles inside each front outward from its centre, then advance the waves by dt; returns whether any
+  // particle was inside a front
+  const apply = (homes: Float32Array, forces: Float32Array, count: number, dt: number) => {
+    let pushed = false;
+
+    waves.forEach((wave) => {
+      const radius = wave.speed * wave.age;
+      const inner = radius - wave.width;
+      const strength = wave.strength * fade(wave, radius);
+      const { x, y, z } = wave.center;
+
+      for (let i = 0; i < count; i++) {
+        const i3 = i * 3;
+        const dx = homes[i3] - x;
+        const dy = homes[i3 + 1] - y;
+        const dz = homes[i3 + 2] - z;
+        const dist = Math.sqrt(dx * dx + dy * dy + dz * dz);
+        if (dist > radius || dist < inner || dist < 1e-6) continue;
+
+        // Smooth bump across the thickness of the front
+        const push = strength * Math.sin(((dist - inner) / wave.width) * Math.PI) / dist;
+        forces[i3] += dx * push;
+        forces[i3 + 1] += dy * push;
+        forces[i3 + 2] += dz * push;
+        pushed = true;
+      }
+
+      wave.age += dt;
+    });
+
+    waves = waves.filter((wave) => wave.speed * wave.age < wave.reach);
+    return pushed;
+  };
+
+  // Centre and radius of each live wave, plus how brightly its front should glow
+  const writeUniforms = (centers: THREE.Vector4[], glow: number[]) => {
+    for (let i = 0; i < MAX_SHOCKWAVES; i++) {
+      const wave = waves[i];
+      if (!wave) {
+        glow[i] = 0;
+        continue;
+      }
+      const radius = wave.speed * wave.age;
+      centers[i].set(wave.center.x, wave.center.y, wave.center.z, radius);
+      glow[i] = fade(wave, radius);
+    }
+  };
+
+  return {
+    launch,
+    apply,
+    writeUniforms,
+    isActive: () => waves.length > 0,
+    clear: () => {
+      waves = [];
+    },
+  };
+};
+
+export type Shockwaves = ReturnType<typeof createShockwaves>;
@@ -0,0 +1,33 @@
+export interface SnapshotSize {
+  id: string;
+  label: string;
+  // Multiple of the screen's own resolution
+  scale?: number;
+  // Fixed output width in pixels, height following the window's aspect
+  width?: number;
+}
+
+export const SNAPSHOT_SIZES: SnapshotSize[] = [
+  { id: '1x', label: 'Screen', scale: 1 },
+  { id: '2x', label: '2× screen', scale: 2 },
+  { id: '4x', label: '4× screen', scale: 4 },
+  { id: '4k', label: '4K wide (3840 px)', width: 3840 },
+  { id: '8k', label: '8K wide (7680 px)', width: 7680 },
+];
+
+export interface SnapshotOptions {
+  size?: SnapshotSize;
+  transparent?: boolean;
+}
+
+// Pixel ratio that renders a canvas of cssWidth × cssHeight at the requested size, capped by what the GPU allows
+export const snapshotPixelRatio = (
+  size: SnapshotSize,
+  cssWidth: number,
+  cssHeight: number,
+  maxPixels: number,
+  devicePixelRatio = window.devicePixelRatio || 1
+) => {
+  const ratio = size.width ? size.width / cssWidth : (size.scale ?? 1) * devicePixelRatio;
+  return Math.min(ratio, maxPixels / Math.max(cssWidth, cssHeight));
+};
@@ -0,0 +1,29 @@
+import * as THREE from 'three';
+import type { ShapeDefinition, ShapeSample } from './shapeRegistry';
+
+// Generate a three-armed galaxy spiral
+export const generateSpiralShape = (count: number, seed: number): ShapeSample => {
+  const points: THREE.Vector3[] = [];
+  const arms = 3;
+
+  for (let i = 0; i < count; i++) {
+    const t = i / count;
+    const arm = i % arms;
+    const angle = t * Math.PI * 6 + (arm / arms) * Math.PI * 2;
+    const radius = 0.3 + t * 4;
+    const x = Math.cos(angle) * radius;
+    const y = Math.sin(angle) * radius;
+    const z = Math.sin(t * Math.PI * 4) * 0.2;
+    points.push(new THREE.Vector3(x, y, z));
+  }
+
+  return { points };
+};
+
+export const spiralShape: ShapeDefinition = {
+  id: 'spiral',
+  label: 'Spiral',
+  generate: generateSpiralShape,
+};
+
+export default spiralShape;
@@ -0,0 +1,99 @@
+import { registerShape, type ShapeDefinition } from './shapeRegistry';
+import { samplePixels, selectPixels, type ImageShapeOptions } from './imageShape';
+
+export const TEXT_FONTS = [
+  { id: 'sans-serif', label: 'Sans' },
+  { id: 'serif', label: 'Serif' },
+  { id: 'monospace', label: 'Mono' },
+  { id: 'cursive', label: 'Script' },
+];
+
+export interface TextShapeOptions {
+  font?: string;
+  weight?: number;
+  // Glyph colour the particles take on
+  color?: string;
+  // Width of the formation in world units
+  size?: number;
+  // Depth the letters are extruded to
+  depth?: number;
+}
+
+export const TEXT_SHAPE_DEFAULTS: Required<TextShapeOptions> = {
+  font: 'sans-serif',
+  weight: 700,
+  color: '#ffd700',
+  size: 8,
+  depth: 0.3,
+};
+
+export const TEXT_SHAPE_ID = 'text';
+
+// Pixel height glyphs are rasterised at; larger gives crisper edges but more pixels to scan
+const FONT_PIXELS = 96;
+
+const createCanvas = (width: number, height: number) => {
+  if (typeof OffscreenCanvas !== 'undefined') {
+    return new OffscreenCanvas(width, height);
+  }
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  return canvas;
+};
+
+// Draw the text onto an offscreen canvas sized to fit it
+export const rasterizeText = (text: string, options: TextShapeOptions = {}) => {
+  const { font, weight, color } = { ...TEXT_SHAPE_DEFAULTS, ...options };
+  const cssFont = `${weight} ${FONT_PIXELS}px ${font}`;
+  const padding = Math.round(FONT_PIXELS * 0.1);
+
+  const measureContext = createCanvas(1, 1).getContext('2d') as CanvasRenderingContext2D | null;
+  if (!measureContext) {
+    throw new Error('Canvas 2D is not available in this browser');
+  }
+  measureContext.font = cssFont;
+  const width = Math.ceil(measureContext.measureText(text).width) + padding * 2;
+  const height = Math.ceil(FONT_PIXELS * 1.3) + padding * 2;
+
+  const context = createCanvas(width, height).getContext('2d', { willReadFrequently: true }) as CanvasRenderingContext2D | null;
+  if (!context) {
+    throw new Error('Canvas 2D is not available in this browser');
+  }
+  context.font = cssFont;
+  context.fillStyle = color;
+  context.textAlign = 'center';
+  context.textBaseline = 'middle';
+  context.fillText(text, width / 2, height / 2);
+  return context.getImageData(0, 0, width, height);
+};
+
+export const createTextShape = (text: string, options: TextShapeOptions = {}): ShapeDefinition => {
+  const trimmed = text.trim();
+  if (!trimmed) {
+    throw new Error('Enter some text to spell out');
+  }
+
+  const { size, depth } = { ...TEXT_SHAPE_DEFAULTS, ...options };
+  const sampling: ImageShapeOptions = { selection: 'opaque', size, depth };
+  const samples = selectPixels(rasterizeText(trimmed, options), sampling);
+
+  return {
+    id: TEXT_SHAPE_ID,
+    label: `"${trimmed}"`,
+    generate: (count, seed) => samplePixels(samples, count, seed, sampling),
+  };
+};
+
+// Message and font behind the registered text formation, so it can be recreated elsewhere
+let currentSource: { text: string; font: string } | null = null;
+
+export const getTextShapeSource = () => currentSource;
+
+// Register the text as the current text formation, replacing any previous message
+export const registerTextShape = (text: string, options: TextShapeOptions = {}) => {
+  const definition = createTextShape(text, options);
+  registerShape(definition);
+  currentSource = { text: text.trim(), font: options.font ?? TEXT_SHAPE_DEFAULTS.font };
+  return definition;
+};
@@ -0,0 +1,14 @@
+import type { z } from 'zod';
+
+// One line per problem, prefixed with the path to the offending field
+export const formatIssues = (error: z.ZodError, root = 'config') =>
+  error.issues.map((issue) => `${issue.path.join('.') || root}: ${issue.message}`).join('\n');
+
+// Parse JSON text, turning syntax errors into the same readable form as schema errors
+export const parseJson = (json: string): unknown => {
+  try {
+    return JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+};